@@ -0,0 +1,171 @@
+import type { NumericMode, Provider } from './provider';
+import type { CallOptions } from './transport';
+import type { TxParams } from './wallet-core';
+import type { Transaction } from './formatter';
+import { TransactionResponse } from './transaction-response';
+import { PopulateOptions, PopulatedTransaction, populateTransaction } from './populate';
+import { SignedTransaction } from './signed-transaction';
+import { TypedDataDomain, TypedDataTypes } from './typed-data';
+import { hexToBigInt, normalizeResponse } from './utils';
+
+/**
+ * Minimum gas price increase, in percent, for a node to accept a replacement transaction.
+ */
+export const MIN_GAS_PRICE_BUMP = 10;
+
+export interface ReplacementOptions {
+  /** Percentage to raise the gas price by; at least `MIN_GAS_PRICE_BUMP`, which is the default. */
+  gasPriceBump?: number;
+  /** Explicit gas price in wei; it must still be at least `MIN_GAS_PRICE_BUMP` percent above the original. */
+  gasPrice?: bigint | number | string;
+}
+
+/**
+ * Base class for signers. Subclasses only provide the key operations (the key may live in-process,
+ * in a KMS/HSM or behind a signing service); filling in the transaction from the provider and
+ * broadcasting it are handled here. Any subclass can be passed to `Contract`, `ContractFactory`
+ * and `NonceManager`.
+ */
+export abstract class AbstractSigner {
+  constructor(
+    public readonly provider: Provider<NumericMode>,
+    protected populateOptions: PopulateOptions = {}
+  ) { }
+
+  abstract getAddress(): Promise<string>;
+
+  /**
+   * Signs a fully populated transaction without sending it.
+   * @returns The raw signed transaction and its hash.
+   */
+  abstract signTransaction(tx: TxParams, options?: CallOptions): Promise<SignedTransaction>;
+
+  /**
+   * Signs the prefixed `hashMessage` digest of `message`; check the result with `verifyMessage`.
+   */
+  abstract signMessage(message: string | Uint8Array, options?: CallOptions): Promise<string>;
+
+  /**
+   * Signs EIP-712 style typed data; check the result with `verifyTypedData`. Not every signer supports it.
+   */
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+    options?: CallOptions
+  ): Promise<string> {
+    throw new Error(`${this.constructor.name} does not support signTypedData`);
+  }
+
+  /**
+   * Returns `txParams` with missing nonce, chainId, gas price and gas limit filled in from the provider,
+   * exactly as `sendTransaction` would sign it.
+   * @param txParams Transaction parameters; `from` defaults to this signer's address.
+   * @param options Timeout and abort signal for each RPC request.
+   */
+  async populateTransaction(txParams: Partial<TxParams>, options?: CallOptions): Promise<PopulatedTransaction<TxParams>> {
+    const from = txParams.from || await this.getAddress();
+    return populateTransaction(this.provider, { ...txParams, from } as TxParams, this.populateOptions, options);
+  }
+
+  /**
+   * Populates, signs and broadcasts a transaction.
+   * @param txParams Transaction parameters; missing fields are filled in by `populateTransaction`.
+   * @param options Timeout and abort signal for each request.
+   */
+  async sendTransaction(txParams: Partial<TxParams>, options?: CallOptions): Promise<TransactionResponse> {
+    return this.send(await this.populateTransaction(txParams, options), options);
+  }
+
+  /**
+   * Resends a pending transaction with the same nonce and a higher gas price.
+   * @param transaction Hash of the pending transaction, or its `TransactionResponse` (which carries
+   *   any transactions it already replaces).
+   * @param replacement Gas price bump, in percent, or an explicit gas price.
+   * @param options Timeout and abort signal for each request.
+   * @returns The replacement; its `wait()` resolves with whichever competing transaction is mined.
+   */
+  async speedUp(transaction: string | TransactionResponse, replacement: ReplacementOptions = {}, options?: CallOptions): Promise<TransactionResponse> {
+    const original = await this.getPendingTransaction(transaction, options);
+    return this.replace(transaction, original, {
+      to: original.to ?? undefined, value: original.value, data: original.input, gasLimit: '0x' + original.gas.toString(16),
+    }, replacement, options);
+  }
+
+  /**
+   * Cancels a pending transaction by sending a zero-value transfer to this signer's own address with
+   * the same nonce and a higher gas price.
+   * @param transaction Hash of the pending transaction, or its `TransactionResponse`.
+   * @param replacement Gas price bump, in percent, or an explicit gas price.
+   * @param options Timeout and abort signal for each request.
+   * @returns The cancelling transaction; its `wait()` resolves with whichever competing transaction is mined.
+   */
+  async cancel(transaction: string | TransactionResponse, replacement: ReplacementOptions = {}, options?: CallOptions): Promise<TransactionResponse> {
+    const original = await this.getPendingTransaction(transaction, options);
+    return this.replace(transaction, original, { to: original.from, value: BigInt(0), data: '0x' }, replacement, options);
+  }
+
+  private async getPendingTransaction(transaction: string | TransactionResponse, options?: CallOptions): Promise<Transaction> {
+    const hash = typeof transaction === 'string' ? transaction : transaction.hash;
+    const [tx, address] = await Promise.all([this.provider.getFormattedTransaction(hash, options), this.getAddress()]);
+    if (!tx) {
+      throw new Error(`Transaction ${hash} not found`);
+    }
+    if (tx.blockNumber !== null && tx.blockNumber !== undefined) {
+      throw new Error(`Transaction ${hash} is already mined`);
+    }
+    if (tx.from.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`Transaction ${hash} was not sent by ${address}`);
+    }
+    return tx;
+  }
+
+  private async replace(
+    transaction: string | TransactionResponse,
+    original: Transaction,
+    fields: Partial<TxParams>,
+    replacement: ReplacementOptions,
+    options?: CallOptions
+  ): Promise<TransactionResponse> {
+    const bump = replacement.gasPriceBump ?? MIN_GAS_PRICE_BUMP;
+    if (!(bump >= MIN_GAS_PRICE_BUMP)) {
+      throw new Error(`gasPriceBump must be at least ${MIN_GAS_PRICE_BUMP}%, got ${bump}`);
+    }
+    const oldPrice = BigInt(original.gasPrice ?? original.maxFeePerGas ?? 0);
+    const raise = (percent: number) => {
+      const factor = BigInt(Math.round((100 + percent) * 100));
+      return (oldPrice * factor + BigInt(9999)) / BigInt(10000);
+    };
+    const minPrice = raise(MIN_GAS_PRICE_BUMP);
+    const gasPrice = replacement.gasPrice !== undefined ? BigInt(replacement.gasPrice) : raise(bump);
+    if (gasPrice < minPrice || gasPrice <= oldPrice) {
+      throw new Error(`Replacement gas price ${gasPrice} must be at least ${minPrice} (${MIN_GAS_PRICE_BUMP}% above ${oldPrice})`);
+    }
+
+    const tx = await this.populateTransaction({
+      ...fields,
+      from: original.from,
+      nonce: Number(original.nonce),
+      gasPrice: '0x' + gasPrice.toString(16),
+    }, options);
+    const replaces = typeof transaction === 'string' ? [original.hash] : [transaction.hash, ...transaction.replaces];
+    return this.send(tx, options, replaces);
+  }
+
+  private async send(tx: PopulatedTransaction<TxParams>, options?: CallOptions, replaces?: string[]): Promise<TransactionResponse> {
+    const { raw: rawSigned } = await this.signTransaction(tx, options);
+    const sendResponse = await this.provider.callRpc('eth_sendRawTransaction', [rawSigned], options);
+    if (sendResponse.error) {
+      throw new Error(
+        'eth_sendRawTransaction failed: ' +
+        JSON.stringify(sendResponse.error)
+      );
+    }
+    const hash = normalizeResponse(sendResponse?.result || sendResponse) as string;
+    return new TransactionResponse(hash, this.provider, {
+      from: tx.from,
+      nonce: tx.nonce !== undefined ? hexToBigInt(tx.nonce) : undefined,
+      replaces,
+    });
+  }
+}
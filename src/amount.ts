@@ -0,0 +1,100 @@
+import { formatUnits, parseUnits } from 'ethers';
+
+// NEC uses 18 decimals, like Ether
+const DECIMALS = 18;
+
+/**
+ * Anything accepted as a transaction `value`. Plain decimal numbers and strings are rejected as
+ * ambiguous (wei or NEC?) unless they are zero; hex strings and bigints are always wei.
+ */
+export type AmountLike =
+  | Amount
+  | { wei: bigint | number | string }
+  | { nec: string | number }
+  | bigint
+  | number
+  | string;
+
+/**
+ * An exact NEC amount, stored in wei.
+ */
+export class Amount {
+  public readonly wei: bigint;
+
+  private constructor(wei: bigint) {
+    if (wei < BigInt(0)) {
+      throw new Error(`Amount cannot be negative: ${wei}`);
+    }
+    this.wei = wei;
+  }
+
+  /**
+   * @param value Wei as a bigint, a safe integer, or a decimal or hex string.
+   */
+  static fromWei(value: bigint | number | string): Amount {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      throw new Error(`Amount.fromWei: ${value} is not a safe integer; pass a bigint or string`);
+    }
+    if (typeof value === 'string') {
+      const raw = value.trim().toLowerCase();
+      if (raw === '0x') return new Amount(BigInt(0));
+      if (!/^0x[0-9a-f]+$/.test(raw) && !/^[0-9]+$/.test(raw)) {
+        throw new Error(`Amount.fromWei: invalid wei value "${value}"`);
+      }
+      return new Amount(BigInt(raw));
+    }
+    return new Amount(BigInt(value));
+  }
+
+  /**
+   * @param value NEC as a decimal string or number, e.g. `'1.5'`. Up to 18 decimal places.
+   */
+  static fromNec(value: string | number): Amount {
+    const str = typeof value === 'number' ? String(value) : value.trim();
+    if (!/^\d+(\.\d+)?$/.test(str)) {
+      throw new Error(`Amount.fromNec: invalid NEC value "${value}"`);
+    }
+    return new Amount(parseUnits(str, DECIMALS));
+  }
+
+  /**
+   * Converts any `AmountLike` into an `Amount`, rejecting ambiguous input.
+   */
+  static from(value: AmountLike): Amount {
+    if (value instanceof Amount) return value;
+    if (typeof value === 'bigint') return new Amount(value);
+    if (value !== null && typeof value === 'object') {
+      const hasWei = 'wei' in value;
+      const hasNec = 'nec' in value;
+      if (hasWei && !hasNec) return Amount.fromWei((value as { wei: bigint | number | string }).wei);
+      if (hasNec && !hasWei) return Amount.fromNec((value as { nec: string | number }).nec);
+      throw new Error(`Ambiguous amount ${JSON.stringify(value)}: use either { wei } or { nec }`);
+    }
+    if (typeof value === 'string' && value.trim().toLowerCase().startsWith('0x')) {
+      return Amount.fromWei(value);
+    }
+    if (value === 0 || value === '' || (typeof value === 'string' && /^0+$/.test(value.trim()))) {
+      return new Amount(BigInt(0));
+    }
+    throw new Error(`Ambiguous amount "${value}": pass { wei }, { nec }, a bigint (wei) or a hex string (wei)`);
+  }
+
+  /** Wei as a JSON-RPC quantity. */
+  toHex(): string {
+    return '0x' + this.wei.toString(16);
+  }
+
+  /** NEC as a decimal string. */
+  toNec(): string {
+    return formatUnits(this.wei, DECIMALS);
+  }
+
+  /** Wei as a decimal string. */
+  toString(): string {
+    return this.wei.toString();
+  }
+
+  toJSON(): string {
+    return this.toHex();
+  }
+}
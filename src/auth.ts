@@ -0,0 +1,50 @@
+import { encodeBase64, toUtf8Bytes } from 'ethers';
+
+/**
+ * HTTP headers as name/value pairs.
+ */
+export type AuthHeaders = Record<string, string>;
+
+/**
+ * Produces headers for each request (or WebSocket connection), e.g. to attach a freshly refreshed JWT.
+ */
+export type HeaderFactory = () => AuthHeaders | Promise<AuthHeaders>;
+
+/**
+ * Credentials and custom headers for an authenticated endpoint. All set options are combined;
+ * `headers` is applied last, so it can override the generated ones.
+ */
+export interface AuthOptions {
+  /** Static headers, or a factory called before every request. */
+  headers?: AuthHeaders | HeaderFactory;
+  /** Sent as `Authorization: Bearer <token>`. A function is called before every request. */
+  bearer?: string | (() => string | Promise<string>);
+  /** Sent as `Authorization: Basic <base64(username:password)>`. */
+  basic?: { username: string; password: string };
+  /** API key sent in the `apiKeyHeader` header. */
+  apiKey?: string;
+  /** Header carrying `apiKey`. Defaults to `x-api-key`. */
+  apiKeyHeader?: string;
+}
+
+/**
+ * Resolves auth options into the headers to send. Factories are invoked on every call.
+ */
+export async function resolveHeaders(auth?: AuthOptions): Promise<AuthHeaders> {
+  if (!auth) return {};
+  const out: AuthHeaders = {};
+  if (auth.basic) {
+    out['Authorization'] = 'Basic ' + encodeBase64(toUtf8Bytes(`${auth.basic.username}:${auth.basic.password}`));
+  }
+  if (auth.bearer) {
+    const token = typeof auth.bearer === 'function' ? await auth.bearer() : auth.bearer;
+    out['Authorization'] = `Bearer ${token}`;
+  }
+  if (auth.apiKey) {
+    out[auth.apiKeyHeader || 'x-api-key'] = auth.apiKey;
+  }
+  if (auth.headers) {
+    Object.assign(out, typeof auth.headers === 'function' ? await auth.headers() : auth.headers);
+  }
+  return out;
+}
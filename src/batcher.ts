@@ -0,0 +1,107 @@
+import { CallOptions, Transport, TransportError } from './transport';
+
+/**
+ * Controls how concurrent requests are coalesced into JSON-RPC batches.
+ */
+export interface BatchOptions {
+  /** Most payloads sent in one batch; a full queue is flushed straight away. */
+  maxBatchSize: number;
+  /** How long to collect requests before sending, in milliseconds. `0` batches calls made in the same tick. */
+  flushInterval: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  maxBatchSize: 100,
+  flushInterval: 0,
+};
+
+interface QueuedRequest {
+  payload: any;
+  signal?: AbortSignal;
+  resolve: (response: any) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * Queues single JSON-RPC payloads and sends them to the transport as batches, handing each
+ * caller back its own response envelope. Used by `Provider` when the `batch` option is set.
+ */
+export class RequestBatcher {
+  private transport: Transport;
+  private options: BatchOptions;
+  private queue: QueuedRequest[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(transport: Transport, options: Partial<BatchOptions> = {}) {
+    this.transport = transport;
+    this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  }
+
+  /**
+   * Adds a payload to the next batch.
+   * @returns The response envelope for this payload.
+   */
+  enqueue(payload: any, options: CallOptions = {}): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ payload, signal: options.signal, resolve, reject });
+      if (this.queue.length >= this.options.maxBatchSize) {
+        this.flush();
+      } else if (this.timer === undefined) {
+        this.timer = setTimeout(() => this.flush(), this.options.flushInterval);
+      }
+    });
+  }
+
+  /**
+   * Sends everything queued so far.
+   */
+  flush() {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    // Calls aborted while queued have already been rejected by their caller
+    const queued = this.queue.filter(q => !q.signal?.aborted);
+    this.queue = [];
+    for (let i = 0; i < queued.length; i += this.options.maxBatchSize) {
+      this.send(queued.slice(i, i + this.options.maxBatchSize));
+    }
+  }
+
+  private async send(batch: QueuedRequest[]) {
+    if (batch.length === 1) {
+      try {
+        batch[0].resolve(await this.transport.request(batch[0].payload));
+      } catch (error) {
+        batch[0].reject(error);
+      }
+      return;
+    }
+    let data: any;
+    try {
+      data = await this.transport.request(batch.map(q => q.payload));
+    } catch (error: any) {
+      // Each caller gets its own error: the provider adds the failed method to the message
+      batch.forEach(q => q.reject(
+        error instanceof TransportError ? new TransportError(error.message, error.status, error.headers) : error
+      ));
+      return;
+    }
+    if (!Array.isArray(data) && data?.error) {
+      // The node rejected the batch as a whole (e.g., batches disabled): every call gets that error
+      batch.forEach(q => q.resolve({ ...data, id: q.payload.id }));
+      return;
+    }
+    const responses = new Map<any, any>();
+    for (const response of Array.isArray(data) ? data : [data]) {
+      responses.set(response?.id, response);
+    }
+    for (const q of batch) {
+      if (responses.has(q.payload.id)) {
+        q.resolve(responses.get(q.payload.id));
+      } else {
+        q.reject(new TransportError(`No response for request id ${q.payload.id} in batch`));
+      }
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { hexToBigInt } from './utils';
+
+/**
+ * Storage behind the `Provider` response cache. Implement it to back the cache with Redis or a
+ * similar store; methods may be synchronous or return promises.
+ */
+export interface CacheStore {
+  get(key: string): any | undefined | Promise<any | undefined>;
+  /**
+   * @param ttl Time to live in milliseconds; keep forever when omitted.
+   */
+  set(key: string, value: any, ttl?: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear?(): void | Promise<void>;
+}
+
+/**
+ * In-memory LRU store with per-entry expiry. The default `CacheStore`.
+ */
+export class MemoryCache implements CacheStore {
+  private entries = new Map<string, { value: any; expires?: number }>();
+  private maxEntries: number;
+
+  /**
+   * @param maxEntries Entries kept before the least recently used one is evicted. Defaults to 1000.
+   */
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): any | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expires !== undefined && entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: any, ttl?: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: ttl === undefined ? undefined : Date.now() + ttl });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+export interface CacheOptions {
+  /** Where entries are kept. Defaults to a `MemoryCache`. */
+  store?: CacheStore;
+  /** Lifetime in milliseconds of results that follow the chain head (`latest` tag, block number, gas price). Defaults to 2000. */
+  latestTtl?: number;
+  /** Blocks a receipt, transaction or numbered block must be buried under before it is cached forever. Defaults to 12. */
+  confirmations?: number;
+  /** Prefix for cache keys, so providers for different chains can share a store. Defaults to the provider URL. */
+  namespace?: string;
+}
+
+/** Results that can never change. */
+const IMMUTABLE_METHODS = [
+  'eth_chainId',
+  'net_version',
+  'eth_getBlockByHash',
+  'eth_getBlockTransactionCountByHash',
+  'eth_getTransactionByBlockHashAndIndex',
+  'eth_getUncleCountByBlockHash',
+];
+
+/** Results that are final once their block is `confirmations` deep. */
+const CONFIRMED_METHODS = ['eth_getTransactionReceipt', 'eth_getTransactionByHash'];
+
+/** Results that follow the chain head. */
+const HEAD_METHODS = ['eth_blockNumber', 'eth_gasPrice', 'eth_maxPriorityFeePerGas'];
+
+/** Index of the block tag parameter for methods that take one. */
+const BLOCK_TAG_PARAM: Record<string, number> = {
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_getStorageAt: 2,
+  eth_call: 1,
+  eth_getBlockByNumber: 0,
+  eth_getBlockTransactionCountByNumber: 0,
+};
+
+/**
+ * Decides what to cache and for how long, on top of a `CacheStore`. Head-tracking entries expire
+ * after `latestTtl` and are dropped as soon as a new block number is observed.
+ */
+export class ResponseCache {
+  public readonly store: CacheStore;
+  private latestTtl: number;
+  private confirmations: number;
+  private namespace: string;
+  private getBlockNumber: () => Promise<any>;
+  private headKeys = new Set<string>();
+  private head?: bigint;
+
+  /**
+   * @param getBlockNumber Fetches the current block number (used to check confirmations).
+   */
+  constructor(options: CacheOptions, getBlockNumber: () => Promise<any>) {
+    this.store = options.store || new MemoryCache();
+    this.latestTtl = options.latestTtl ?? 2000;
+    this.confirmations = options.confirmations ?? 12;
+    this.namespace = options.namespace ?? '';
+    this.getBlockNumber = getBlockNumber;
+  }
+
+  /**
+   * Returns the cached result for a call, or runs `load` and caches what it returns when the method allows.
+   * @param load Performs the request and returns the raw `result`.
+   */
+  async fetch(method: string, params: any[], load: () => Promise<any>): Promise<any> {
+    const policy = this.policy(method, params);
+    if (policy === 'none') {
+      return load();
+    }
+    const key = `${this.namespace}|${method}:${JSON.stringify(params)}`;
+    const cached = await this.store.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const result = await load();
+    if (method === 'eth_blockNumber') {
+      await this.observeHead(result);
+    }
+    if (result === null || result === undefined) {
+      // Not found or still pending: may appear later
+      return result;
+    }
+    if (policy === 'forever') {
+      await this.store.set(key, result);
+    } else if (policy === 'confirmed' || policy === 'numbered') {
+      const blockNumber = policy === 'confirmed' ? result.blockNumber : params[BLOCK_TAG_PARAM[method]];
+      if (blockNumber !== null && blockNumber !== undefined && await this.isConfirmed(blockNumber)) {
+        await this.store.set(key, result);
+      } else if (policy === 'numbered') {
+        await this.setHead(key, result);
+      }
+    } else {
+      await this.setHead(key, result);
+    }
+    return result;
+  }
+
+  /**
+   * Drops every cached entry.
+   */
+  async clear() {
+    this.headKeys.clear();
+    this.head = undefined;
+    await this.store.clear?.();
+  }
+
+  private policy(method: string, params: any[]): 'forever' | 'confirmed' | 'numbered' | 'head' | 'none' {
+    if (IMMUTABLE_METHODS.includes(method)) return 'forever';
+    if (CONFIRMED_METHODS.includes(method)) return 'confirmed';
+    if (HEAD_METHODS.includes(method)) return 'head';
+    if (method in BLOCK_TAG_PARAM) {
+      const tag = params[BLOCK_TAG_PARAM[method]] ?? 'latest';
+      if (typeof tag === 'string' && /^0x[0-9a-fA-F]+$/.test(tag)) return 'numbered';
+      return tag === 'latest' ? 'head' : 'none';
+    }
+    return 'none';
+  }
+
+  private async setHead(key: string, result: any) {
+    this.headKeys.add(key);
+    await this.store.set(key, result, this.latestTtl);
+  }
+
+  private async isConfirmed(blockNumber: any): Promise<boolean> {
+    const head = hexToBigInt(await this.getBlockNumber());
+    return head - hexToBigInt(blockNumber) >= BigInt(this.confirmations);
+  }
+
+  /**
+   * Invalidates head-tracking entries when the chain has moved on.
+   */
+  private async observeHead(blockNumber: any) {
+    const head = hexToBigInt(blockNumber);
+    if (this.head !== undefined && head !== this.head) {
+      const keys = [...this.headKeys];
+      this.headKeys.clear();
+      await Promise.all(keys.map(k => this.store.delete(k)));
+    }
+    this.head = head;
+  }
+}
@@ -1,47 +1,45 @@
 import { Contract, ISigner } from './contract';
-import { Provider } from './provider';
+import { NumericMode, Provider } from './provider';
+import { CallOptions } from './transport';
+import { PopulateOptions, populateTransaction } from './populate';
 import { Interface } from 'ethers';
 
-export class ContractFactory {
+export class ContractFactory<N extends NumericMode = 'number'> {
   public readonly abi: any[];
   public readonly bytecode: string;
-  public readonly provider: Provider;
+  public readonly provider: Provider<N>;
   public readonly signer?: ISigner;
+  public readonly populateOptions: PopulateOptions;
 
-  constructor(abi: any[], bytecode: string, provider: Provider, signer?: ISigner) {
+  /**
+   * @param populateOptions Gas multiplier and caps used when filling in deployment transactions.
+   */
+  constructor(abi: any[], bytecode: string, provider: Provider<N>, signer?: ISigner, populateOptions: PopulateOptions = {}) {
     this.abi = abi;
     this.bytecode = bytecode;
     this.provider = provider;
     this.signer = signer;
+    this.populateOptions = populateOptions;
   }
 
-  async deploy(constructorArgs: any[] = [], options: Record<string, any> = {}) {
+  async deploy(constructorArgs: any[] = [], options: Record<string, any> = {}, callOptions?: CallOptions) {
     const deployer = this.signer || options.from;
     if (!deployer) throw new Error('No deployer (signer or from address) specified');
 
-    options.nonce = options.nonce || (await this.provider.getTransactionCount(typeof deployer === 'string' ? deployer : await deployer.getAddress?.()));
-    options.gasPrice = options.gasPrice || (await this.provider.getGasPrice());
-
-    // Auto-estimate gas if not provided
-    if (!options.gasLimit) {
-      try {
-        const iface = new Interface(this.abi);
-        let deployData = this.bytecode;
-        if (constructorArgs && constructorArgs.length > 0) {
-          deployData += iface.encodeDeploy(constructorArgs).slice(2); // remove 0x
-        }
-        const estimateGasParams = {
-          from: typeof deployer === 'string' ? deployer : (await deployer.getAddress?.()) || undefined,
-          data: deployData,
-        };
-        let gasLimit = await this.provider.estimateGas(estimateGasParams);
-        gasLimit = Math.floor(Number(gasLimit) * 1.2); // add 20% buffer
-        options.gasLimit = gasLimit;
-      } catch (err) {
-        // fallback default
-        options.gasLimit = 7000000;
-      }
+    const iface = new Interface(this.abi);
+    let deployData = this.bytecode;
+    if (constructorArgs && constructorArgs.length > 0) {
+      deployData += iface.encodeDeploy(constructorArgs).slice(2); // remove 0x
     }
+    const from = typeof deployer === 'string' ? deployer : (await deployer.getAddress?.()) || options.from;
+    // A signer assigns the nonce itself; filling it in here would bypass a `NonceManager`
+    const { data, ...populated } = await populateTransaction(
+      this.provider,
+      { ...options, from, data: deployData },
+      { fallbackGasLimit: 7000000, ...this.populateOptions, skipNonce: typeof deployer !== 'string' },
+      callOptions
+    );
+    options = populated;
 
     const { contractAddress, txHash, receipt } = await Contract.deploy({
       abi: this.abi,
@@ -50,6 +48,7 @@ export class ContractFactory {
       deployer,
       constructorArgs,
       options,
+      callOptions,
     });
     return new Contract(contractAddress, this.abi, this.provider, this.signer);
   }
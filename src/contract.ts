@@ -1,14 +1,18 @@
-import { Provider } from './provider';
-import { TxParams } from './extension';
+import { NumericMode, Provider, Quantity } from './provider';
+import { CallOptions, TimeoutError, withDeadline } from './transport';
+import { TransactionResponse } from './transaction-response';
+import { populateTransaction } from './populate';
+import type { TxParams } from './wallet-core';
 import { Interface, Fragment, FunctionFragment, id as keccak256 } from 'ethers';
 import { serializeForRpc } from './utils';
 import axios from 'axios';
-import { Subscription } from './subscription';
+import type { Subscription } from './subscription';
 
 // Generic signer interface for extension and wallet based signers
 export interface ISigner {
-  sendTransaction(tx: TxParams): Promise<string>;
+  sendTransaction(tx: TxParams, options?: CallOptions): Promise<TransactionResponse | string>;
   getAddress?(): Promise<string>;
+  populateTransaction?(tx: Record<string, any>, options?: CallOptions): Promise<Record<string, any>>;
 }
 
 export function mergeArrayAndKeys(decoded: any, outputs: ReadonlyArray<any>): any {
@@ -80,19 +84,20 @@ export function toPlainObject(result: any, outputs?: any): any {
  * Represents a smart contract on the blockchain, providing methods to call and send transactions.
  * Now supports web3.js-style dynamic method calls: contract.methods.myMethod(...args).call(), .send(), .estimateGas()
  */
-export class Contract {
-  public provider: Provider;
+export class Contract<N extends NumericMode = 'number'> {
+  public provider: Provider<N>;
   private signer?: ISigner; // Add signer property
   public readonly address: string;
   public readonly abiInterface: Interface;
   public readonly methods: Record<string, (...args: any[]) => {
-    call: (options?: Record<string, any>) => Promise<any>;
-    send: (options: Record<string, any>) => Promise<string>;
-    estimateGas: (options?: Record<string, any>) => Promise<number>;
+    call: (options?: Record<string, any>, callOptions?: CallOptions) => Promise<any>;
+    send: (options: Record<string, any>, callOptions?: CallOptions) => Promise<TransactionResponse>;
+    populateTransaction: (options?: Record<string, any>, callOptions?: CallOptions) => Promise<Record<string, any>>;
+    estimateGas: (options?: Record<string, any>, callOptions?: CallOptions) => Promise<Quantity<N>>;
   }> = {};
   public readonly events: Record<string, (options?: { fromBlock?: string | number; toBlock?: string | number; filter?: Record<string, any> }) => EventStream> = {};
 
-  constructor(address: string, abi: any[], provider: Provider, signer?: ISigner) {
+  constructor(address: string, abi: any[], provider: Provider<N>, signer?: ISigner) {
     this.address = address;
     this.abiInterface = new Interface(abi);
     this.provider = provider;
@@ -102,9 +107,10 @@ export class Contract {
       if (fragment.type === 'function') {
         const methodName = (fragment as Fragment & { name: string }).name;
         this.methods[methodName] = (...args: any[]) => ({
-          call: (options: Record<string, any> = {}) => this.call(methodName, args, options),
-          send: (options: Record<string, any>) => this.send(methodName, args, options),
-          estimateGas: (options: Record<string, any> = {}) => this.estimateGas(methodName, args, options)
+          call: (options: Record<string, any> = {}, callOptions?: CallOptions) => this.call(methodName, args, options, callOptions),
+          send: (options: Record<string, any>, callOptions?: CallOptions) => this.send(methodName, args, options, callOptions),
+          populateTransaction: (options: Record<string, any> = {}, callOptions?: CallOptions) => this.populateTransaction(methodName, args, options, callOptions),
+          estimateGas: (options: Record<string, any> = {}, callOptions?: CallOptions) => this.estimateGas(methodName, args, options, callOptions)
         });
       }
       if (fragment.type === 'event') {
@@ -114,10 +120,10 @@ export class Contract {
     }
   }
 
-  async call(method: string, params: any[] = [], options: Record<string, any> = {}): Promise<any> {
+  async call(method: string, params: any[] = [], options: Record<string, any> = {}, callOptions?: CallOptions): Promise<any> {
     const data = this.abiInterface.encodeFunctionData(method, params);
     const tx = { to: this.address, data, ...options };
-    const result = await this.provider.call(tx, 'latest');
+    const result = await this.provider.call(tx, 'latest', callOptions);
 
     // Patch: If result is 0 (from hexToDecimalString), convert back to '0x' for decodeFunctionResult
     let decodeInput = result;
@@ -144,25 +150,43 @@ export class Contract {
     return toPlainObject(mergeArrayAndKeys(decoded, outputs));
   }
 
-  async send(method: string, params: any[], options: Record<string, any>): Promise<string> {
+  /**
+   * Builds the transaction `send` would submit, with nonce, chainId, gas price and gas limit filled in.
+   * Uses the signer's settings when it has a `populateTransaction`; otherwise `options.from` is required.
+   * A signer without `populateTransaction` (e.g. a `NonceManager`) assigns the nonce itself, so it is left unset.
+   */
+  async populateTransaction(method: string, params: any[], options: Record<string, any> = {}, callOptions?: CallOptions): Promise<Record<string, any>> {
     const data = this.abiInterface.encodeFunctionData(method, params);
-    const tx = { to: this.address, data, value: '', ...options };
+    const tx: Record<string, any> = { to: this.address, data, value: '', ...options };
+    if (this.signer?.populateTransaction) {
+      return this.signer.populateTransaction(tx, callOptions);
+    }
+    if (this.signer && !tx.from) {
+      tx.from = await this.signer.getAddress?.();
+    }
+    return populateTransaction(this.provider, tx, { skipNonce: !!this.signer }, callOptions);
+  }
+
+  async send(method: string, params: any[], options: Record<string, any>, callOptions?: CallOptions): Promise<TransactionResponse> {
     // If signer is present, use it for MLDSA87 signing (wallet or extension)
     if (this.signer) {
-      // The signer expects a TxParams object; ensure required fields are present
-      // (ExtensionSigner and Wallet.Signer both expect similar fields)
-      return this.signer.sendTransaction(tx as any);
+      const tx = await this.populateTransaction(method, params, options, callOptions);
+      const sent = await this.signer.sendTransaction(tx as any, callOptions);
+      return typeof sent === 'string' ? new TransactionResponse(sent, this.provider) : sent;
     }
-    // Fallback: Use provider's sendTransaction (from must be unlocked)
-    const rpcTx = serializeForRpc(tx);
-    return this.provider.sendTransaction(rpcTx as { from?: string; to: string; gas?: string; gasPrice?: string; value?: string; data?: string; });
+    // Fallback: Use provider's sendTransaction (from must be unlocked); without `from` the node fills in the rest
+    const data = this.abiInterface.encodeFunctionData(method, params);
+    const tx: Record<string, any> = { to: this.address, data, value: '', ...options };
+    const rpcTx = serializeForRpc(tx.from ? await populateTransaction(this.provider, tx, {}, callOptions) : tx);
+    const hash = await this.provider.sendTransaction(rpcTx as { from?: string; to: string; gas?: string; gasPrice?: string; value?: string; data?: string; }, callOptions);
+    return new TransactionResponse(hash, this.provider, { from: tx.from });
   }
 
-  async estimateGas(method: string, params: any[] = [], options: Record<string, any> = {}): Promise<number> {
+  async estimateGas(method: string, params: any[] = [], options: Record<string, any> = {}, callOptions?: CallOptions): Promise<Quantity<N>> {
     const data = this.abiInterface.encodeFunctionData(method, params);
     const tx = { to: this.address, data, ...options };
     const rpcTx = serializeForRpc(tx);
-    return this.provider.estimateGas(rpcTx as { from?: string; to: string; gas?: string; gasPrice?: string; value?: string; data?: string; });
+    return this.provider.estimateGas(rpcTx as { from?: string; to: string; gas?: string; gasPrice?: string; value?: string; data?: string; }, callOptions);
   }
 
   /**
@@ -173,6 +197,7 @@ export class Contract {
    * @param deployer The address or signer sending the deployment
    * @param constructorArgs Arguments for the contract constructor
    * @param options Additional tx options (gas, gasPrice, value, nonce, etc.)
+   * @param callOptions Timeout and abort signal applied to each RPC request made while deploying
    * @returns The transaction hash of the deployment
    */
   static async deploy({
@@ -181,14 +206,16 @@ export class Contract {
     provider,
     deployer,
     constructorArgs = [],
-    options = {}
+    options = {},
+    callOptions
   }: {
     abi: any[];
     bytecode: string;
-    provider: Provider;
+    provider: Provider<NumericMode>;
     deployer: string | ISigner;
     constructorArgs?: any[];
     options?: Record<string, any>;
+    callOptions?: CallOptions;
   }): Promise<{ contractAddress: string, txHash: string, receipt: any }> {
     const abiInterface = new Interface(abi);
     let data = bytecode;
@@ -199,23 +226,25 @@ export class Contract {
       data,
       ...options,
     };
-    let txHash: string;
+    let sent: TransactionResponse | string;
     if (typeof deployer === 'string') {
       tx['from'] = deployer;
       // Use provider's sendTransaction (from must be unlocked)
-      txHash = await provider.sendTransaction(tx);
+      sent = await provider.sendTransaction(tx, callOptions);
     } else if (deployer && typeof deployer.sendTransaction === 'function') {
       // Use ISigner interface
-      txHash = await deployer.sendTransaction(tx as any);
+      sent = await deployer.sendTransaction(tx as any, callOptions);
     } else {
       throw new Error('Invalid deployer: must be address string or ISigner');
     }
+    const response = typeof sent === 'string' ? new TransactionResponse(sent, provider) : sent;
+    const txHash = response.hash;
     // Wait for the transaction to be mined and get the receipt
     let receipt: any = null;
-    for (let i = 0; i < 60; i++) { // up to ~60s
-      receipt = await provider.getTransactionReceipt(txHash);
-      if (receipt && receipt.contractAddress) break;
-      await new Promise(res => setTimeout(res, 1000));
+    try {
+      receipt = await withDeadline(response.wait(1, 60000), { signal: callOptions?.signal });
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) throw error;
     }
     if (!receipt || !receipt.contractAddress) {
       throw new Error('Deployment transaction was not mined or contract address not found in receipt.');
@@ -278,14 +307,14 @@ export class Contract {
  * Usage: contract.events.MyEvent({ fromBlock, toBlock, filter }).on('data', handler)
  */
 export class EventStream {
-  private contract: Contract;
+  private contract: Contract<NumericMode>;
   private eventName: string;
   private options: { fromBlock?: string | number; toBlock?: string | number; filter?: Record<string, any> };
   private subscription?: Subscription;
   private listeners: { [event: string]: Function[] } = {};
   private active = false;
 
-  constructor(contract: Contract, eventName: string, options: { fromBlock?: string | number; toBlock?: string | number; filter?: Record<string, any> }) {
+  constructor(contract: Contract<NumericMode>, eventName: string, options: { fromBlock?: string | number; toBlock?: string | number; filter?: Record<string, any> }) {
     this.contract = contract;
     this.eventName = eventName;
     this.options = options;
@@ -328,7 +357,7 @@ export class EventStream {
       fromBlock: this.options.fromBlock || 'latest',
       toBlock: this.options.toBlock || 'latest',
     };
-    this.subscription = new Subscription((this.contract.provider as any).url.replace(/^http/, 'ws'));
+    this.subscription = this.contract.provider.createSubscription();
     await this.subscription.connect();
     const subId = await this.subscription.subscribe('logs', [filter], (log: any) => {
       try {
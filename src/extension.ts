@@ -1,20 +1,13 @@
-import { Provider } from './provider';
-import { serializeForRpc, normalizeResponse } from './utils';
+import { NumericMode, Provider } from './provider';
+import { AbortError, CallOptions, TimeoutError, withDeadline } from './transport';
+import { serializeForRpc, normalizeResponse, hexToBigInt } from './utils';
+import { TransactionResponse } from './transaction-response';
+import { Amount } from './amount';
+import { hexlify, toUtf8Bytes } from 'ethers';
+import { TypedDataDomain, TypedDataTypes, getTypedDataPayload } from './typed-data';
+import type { TxParams } from './wallet-core';
 
-/**
- * Defines the parameters for a transaction to be sent via an extension.
- */
-export interface TxParams {
-  from: string;
-  nonce: any;
-  gasPrice: string;
-  gasLimit?: string;
-  gas?: string;
-  to: string;
-  value: string;
-  data?: string;
-  chainId?: number;
-}
+export type { TxParams };
 
 /**
  * Describes the interface for an injected NCOG wallet provider (e.g., from a browser extension).
@@ -41,7 +34,7 @@ export class ExtensionSigner {
    * @param injected The injected provider object from the browser (e.g., `window.ncogWallet`).
    * @param provider A read-only `Provider` instance for querying blockchain data.
    */
-  constructor(private injected: InjectedProvider, private provider: Provider) {}
+  constructor(private injected: InjectedProvider, private provider: Provider<NumericMode>) {}
 
   /**
    * Retrieves the currently selected address from the extension wallet.
@@ -73,13 +66,52 @@ export class ExtensionSigner {
     }
   }
 
+  /**
+   * Asks the extension wallet to sign a message with the selected account (`ncog_signMessage`).
+   * The wallet signs the prefixed hash from `hashMessage`; check the result with `verifyMessage`.
+   * @param message A UTF-8 string or raw bytes.
+   * @param options Timeout and abort signal; aborting stops waiting for the wallet, it cannot withdraw the prompt.
+   * @returns The hex-encoded signature.
+   */
+  async signMessage(message: string | Uint8Array, options?: CallOptions): Promise<string> {
+    const from = await this.getAddress();
+    const data = hexlify(typeof message === 'string' ? toUtf8Bytes(message) : message);
+    const response = await withDeadline(this.injected.request({ method: 'ncog_signMessage', params: [data, from] }), options);
+    const signature = response?.result || response;
+    if (typeof signature !== 'string') {
+      throw new Error('Extension returned an invalid signature: ' + JSON.stringify(signature));
+    }
+    return signature;
+  }
+
+  /**
+   * Asks the extension wallet to sign typed data with the selected account (`ncog_signTypedData`,
+   * with the same `[address, payloadJson]` params as `eth_signTypedData_v4`).
+   * @param domain The EIP-712 domain.
+   * @param types Struct definitions.
+   * @param value The message to sign.
+   * @param options Timeout and abort signal; aborting stops waiting for the wallet, it cannot withdraw the prompt.
+   * @returns The hex-encoded signature; check it with `verifyTypedData`.
+   */
+  async signTypedData(domain: TypedDataDomain, types: TypedDataTypes, value: Record<string, any>, options?: CallOptions): Promise<string> {
+    const from = await this.getAddress();
+    const payload = JSON.stringify(getTypedDataPayload(domain, types, value));
+    const response = await withDeadline(this.injected.request({ method: 'ncog_signTypedData', params: [from, payload] }), options);
+    const signature = response?.result || response;
+    if (typeof signature !== 'string') {
+      throw new Error('Extension returned an invalid signature: ' + JSON.stringify(signature));
+    }
+    return signature;
+  }
+
   /**
  * Signs and sends a transaction through the extension wallet.
  * The wallet will prompt the user for confirmation.
  * @param tx The transaction parameters.
- * @returns A promise that resolves to the transaction hash.
+ * @param options Timeout and abort signal; aborting stops waiting for the wallet, it cannot withdraw the prompt.
+ * @returns A `TransactionResponse` for the sent transaction; call `wait()` on it for the receipt.
  */
-  async sendTransaction(tx: TxParams): Promise<string> {
+  async sendTransaction(tx: TxParams, options?: CallOptions): Promise<TransactionResponse> {
     const from = await this.getAddress();
     if (!from) {
       throw new Error("Cannot send transaction: no address is selected in the wallet.");
@@ -94,14 +126,14 @@ export class ExtensionSigner {
     }
 
     if (!tx.chainId) {
-      tx.chainId = await this.provider.getChainId();
+      tx.chainId = Number(await this.provider.getChainId(options));
     }
 
     // Only include acceptable fields
     const txParams: Record<string, any> = {
       from,
       to: tx.to,
-      value: tx.value,
+      value: Amount.from(tx.value).toHex(),
     };
     if (tx.data !== undefined) txParams.data = tx.data;
     if (tx.gasLimit !== undefined) txParams.gas = tx.gasLimit;
@@ -113,10 +145,17 @@ export class ExtensionSigner {
     // Try MLDSA87 signing if supported
     if (typeof this.injected.request === 'function') {
       try {
-        const sendResponse = await this.injected.request({ method: 'ncog_sendTransaction', params: [txParams] });
-        return normalizeResponse(sendResponse.result || sendResponse) as string;
+        const sendResponse = await withDeadline(this.injected.request({ method: 'ncog_sendTransaction', params: [txParams] }), options);
+        const hash = normalizeResponse(sendResponse.result || sendResponse) as string;
+        return new TransactionResponse(hash, this.provider, {
+          from,
+          nonce: tx.nonce !== undefined ? hexToBigInt(tx.nonce) : undefined,
+        });
 
       } catch (err) {
+        if (err instanceof TimeoutError || err instanceof AbortError) {
+          throw err;
+        }
         throw new Error('Extension does not sendResponse failed: ' + err);
       }
     }
@@ -0,0 +1,290 @@
+import { NumericMode, Provider, ProviderOptions } from './provider';
+import { AbortError, CallOptions, HttpTransport, Transport, TransportError } from './transport';
+import { RateLimitedTransport, RateLimitOptions } from './rate-limiter';
+
+/**
+ * One RPC endpoint behind a `FallbackProvider`.
+ */
+export interface FallbackBackend {
+  /** The endpoint URL (HTTP) or a ready-made transport. */
+  transport: string | Transport;
+  /** Higher weight wins ties when ranking endpoints of similar health. Defaults to 1. */
+  weight?: number;
+  /** Name used in health and disagreement reports. Defaults to the endpoint URL, suffixed with `#<position>` if already taken. */
+  label?: string;
+  /** Request rate and concurrency limits for this endpoint. */
+  rateLimit?: RateLimitOptions;
+}
+
+/**
+ * Health snapshot of a backend, as reported by `FallbackProvider.getBackendStatus()`.
+ */
+export interface BackendStatus {
+  label: string;
+  weight: number;
+  /** Exponentially weighted moving average of response latency, in milliseconds. */
+  latency: number;
+  /** Consecutive transport failures. */
+  failures: number;
+  /** False while the backend is cooling down after a failure. */
+  healthy: boolean;
+  lastError?: string;
+}
+
+/**
+ * What each backend answered for a quorum call in which not every backend agreed.
+ */
+export interface DisagreementReport {
+  method: string;
+  params: any[];
+  /** The result that reached quorum, if any. */
+  result?: any;
+  responses: { backend: string; agreed: boolean; result?: any; error?: any }[];
+}
+
+export interface FallbackProviderOptions<N extends NumericMode = NumericMode> extends ProviderOptions<N> {
+  /**
+   * Number of backends that must return the same answer for a quorum method. Defaults to 1 (no quorum).
+   */
+  quorum?: number;
+  /** Methods subject to `quorum`. Defaults to `DEFAULT_QUORUM_METHODS`. */
+  quorumMethods?: string[];
+  /** Called whenever a backend answers a quorum call differently from the others. */
+  onDisagreement?: (report: DisagreementReport) => void;
+  /** Base cooldown in milliseconds after a backend fails; doubles per consecutive failure. Defaults to 1000. */
+  cooldown?: number;
+}
+
+export const DEFAULT_QUORUM_METHODS = [
+  'eth_blockNumber',
+  'eth_chainId',
+  'eth_getBalance',
+  'eth_call',
+  'eth_getCode',
+  'eth_getStorageAt',
+  'eth_getTransactionCount',
+];
+
+/**
+ * Thrown when the backends of a `FallbackProvider` cannot reach the required quorum.
+ */
+export class QuorumError extends Error {
+  public readonly report: DisagreementReport;
+
+  constructor(message: string, report: DisagreementReport) {
+    super(message);
+    this.name = 'QuorumError';
+    this.report = report;
+  }
+}
+
+const MAX_COOLDOWN = 60000;
+
+interface BackendState extends Omit<BackendStatus, 'healthy'> {
+  transport: Transport;
+  cooldownUntil: number;
+}
+
+/**
+ * A transport that ranks several backends by health and latency, fails over on transport
+ * errors and, for quorum methods, requires N backends to agree.
+ */
+export class FallbackTransport implements Transport {
+  private backends: BackendState[];
+  private quorum: number;
+  private quorumMethods: string[];
+  private onDisagreement?: (report: DisagreementReport) => void;
+  private cooldown: number;
+
+  constructor(backends: (string | Transport | FallbackBackend)[], options: FallbackProviderOptions<NumericMode> = {}) {
+    if (!backends || backends.length === 0) {
+      throw new Error('FallbackProvider requires at least one backend');
+    }
+    const labels = new Set<string>();
+    this.backends = backends.map((b, i) => {
+      const config: FallbackBackend = typeof b === 'string' || !('transport' in b) ? { transport: b } : b;
+      let transport = typeof config.transport === 'string' ? new HttpTransport(config.transport, options.auth) : config.transport;
+      if (config.rateLimit) {
+        transport = new RateLimitedTransport(transport, config.rateLimit);
+      }
+      let label = config.label;
+      if (!label) {
+        label = transport.url || 'backend';
+        if (labels.has(label)) label = `${label}#${i + 1}`;
+      }
+      labels.add(label);
+      return {
+        transport,
+        label,
+        weight: config.weight ?? 1,
+        latency: 0,
+        failures: 0,
+        cooldownUntil: 0,
+      };
+    });
+    this.quorum = options.quorum ?? 1;
+    this.quorumMethods = options.quorumMethods || DEFAULT_QUORUM_METHODS;
+    this.onDisagreement = options.onDisagreement;
+    this.cooldown = options.cooldown ?? 1000;
+    if (this.quorum > this.backends.length) {
+      throw new Error(`Quorum of ${this.quorum} cannot be reached with ${this.backends.length} backends`);
+    }
+  }
+
+  get url(): string {
+    return this.ranked()[0].transport.url || '';
+  }
+
+  async request(payload: any, options?: CallOptions): Promise<any> {
+    if (Array.isArray(payload)) {
+      return Promise.all(payload.map(p => this.request(p, options)));
+    }
+    if (this.quorum > 1 && this.quorumMethods.includes(payload.method)) {
+      return this.requestQuorum(payload, options);
+    }
+    return this.requestFailover(payload, options);
+  }
+
+  close() {
+    for (const backend of this.backends) {
+      backend.transport.close?.();
+    }
+  }
+
+  getBackendStatus(): BackendStatus[] {
+    const now = Date.now();
+    return this.ranked().map(({ label, weight, latency, failures, cooldownUntil, lastError }) => ({
+      label, weight, latency, failures, healthy: cooldownUntil <= now, lastError,
+    }));
+  }
+
+  /**
+   * Healthy backends first, then by latency scaled down by weight.
+   */
+  private ranked(): BackendState[] {
+    const now = Date.now();
+    return [...this.backends].sort((a, b) => {
+      const aDown = a.cooldownUntil > now ? 1 : 0;
+      const bDown = b.cooldownUntil > now ? 1 : 0;
+      if (aDown !== bDown) return aDown - bDown;
+      return a.latency / a.weight - b.latency / b.weight || b.weight - a.weight;
+    });
+  }
+
+  private async send(backend: BackendState, payload: any, options?: CallOptions): Promise<any> {
+    const start = Date.now();
+    try {
+      const response = await backend.transport.request(payload, options);
+      const elapsed = Date.now() - start;
+      backend.latency = backend.latency ? backend.latency * 0.7 + elapsed * 0.3 : elapsed;
+      backend.failures = 0;
+      backend.cooldownUntil = 0;
+      backend.lastError = undefined;
+      return response;
+    } catch (error: any) {
+      if (error instanceof AbortError) {
+        // Cancelled by the caller; says nothing about the backend's health
+        throw error;
+      }
+      backend.failures++;
+      backend.cooldownUntil = Date.now() + Math.min(this.cooldown * Math.pow(2, backend.failures - 1), MAX_COOLDOWN);
+      backend.lastError = error?.message || String(error);
+      throw error;
+    }
+  }
+
+  private async requestFailover(payload: any, options?: CallOptions): Promise<any> {
+    let lastError: any;
+    for (const backend of this.ranked()) {
+      try {
+        return await this.send(backend, payload, options);
+      } catch (error) {
+        if (error instanceof AbortError) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError instanceof TransportError
+      ? new TransportError(`All backends failed: ${lastError.message}`, lastError.status, lastError.headers)
+      : lastError;
+  }
+
+  private requestQuorum(payload: any, options?: CallOptions): Promise<any> {
+    const backends = this.ranked();
+    const responses: DisagreementReport['responses'] = [];
+    // Parallel to `responses`; agreement is decided by backend, since labels need not be unique
+    const responders: BackendState[] = [];
+    const groups = new Map<string, { response: any; backends: BackendState[] }>();
+    let settled = 0;
+    let winner: string | undefined;
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        const report: DisagreementReport = {
+          method: payload.method,
+          params: payload.params || [],
+          result: winner !== undefined ? groups.get(winner)!.response?.result : undefined,
+          responses,
+        };
+        if (winner === undefined) {
+          reject(new QuorumError(`Quorum of ${this.quorum} not reached for "${payload.method}"`, report));
+        } else if (report.responses.some(r => !r.agreed)) {
+          this.onDisagreement?.(report);
+        }
+      };
+
+      for (const backend of backends) {
+        this.send(backend, payload, options).then(
+          (response) => {
+            const key = JSON.stringify(response?.error ? { error: response.error } : { result: response?.result });
+            const group = groups.get(key) || { response, backends: [] };
+            group.backends.push(backend);
+            groups.set(key, group);
+            responders.push(backend);
+            responses.push({ backend: backend.label, agreed: false, result: response?.result, error: response?.error });
+            if (winner === undefined && group.backends.length >= this.quorum) {
+              winner = key;
+              resolve({ ...group.response, id: payload.id });
+            }
+          },
+          (error) => {
+            responders.push(backend);
+            responses.push({ backend: backend.label, agreed: false, error: error?.message || String(error) });
+          }
+        ).finally(() => {
+          settled++;
+          if (settled === backends.length) {
+            const agreedBackends = winner !== undefined ? groups.get(winner)!.backends : [];
+            responses.forEach((r, i) => { r.agreed = agreedBackends.includes(responders[i]); });
+            finish();
+          }
+        });
+      }
+    });
+  }
+}
+
+/**
+ * A `Provider` backed by several NCOG RPC endpoints. Calls go to the healthiest, fastest endpoint
+ * and fail over to the next one on transport errors; configured read methods can require agreement
+ * from `quorum` endpoints, with disagreeing endpoints reported through `onDisagreement`.
+ */
+export class FallbackProvider<N extends NumericMode = 'number'> extends Provider<N> {
+  private fallback: FallbackTransport;
+
+  /**
+   * @param backends Endpoint URLs, transports, or `FallbackBackend` configs.
+   * @param options Quorum settings plus the usual `ProviderOptions`.
+   */
+  constructor(backends: (string | Transport | FallbackBackend)[], options: FallbackProviderOptions<N> = {}) {
+    const fallback = new FallbackTransport(backends, options);
+    super(fallback, options);
+    this.fallback = fallback;
+  }
+
+  /**
+   * Returns the current health ranking of all backends, best first.
+   */
+  getBackendStatus(): BackendStatus[] {
+    return this.fallback.getBackendStatus();
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Typed models for block, transaction, receipt and log results, decoded field by field:
+ * quantities become `bigint`, hashes, addresses and data stay `0x` hex strings.
+ * Fields a node returns that are not listed in a model are passed through untouched.
+ */
+
+export interface Log {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: bigint | null;
+  blockHash: string | null;
+  transactionHash: string | null;
+  transactionIndex: bigint | null;
+  logIndex: bigint | null;
+  removed: boolean;
+  [key: string]: any;
+}
+
+export interface Transaction {
+  hash: string;
+  blockHash: string | null;
+  blockNumber: bigint | null;
+  transactionIndex: bigint | null;
+  from: string;
+  to: string | null;
+  nonce: bigint;
+  gas: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  value: bigint;
+  input: string;
+  type?: number;
+  chainId?: bigint;
+  accessList?: { address: string; storageKeys: string[] }[];
+  v?: bigint;
+  r?: string;
+  s?: string;
+  [key: string]: any;
+}
+
+export interface TransactionReceipt {
+  transactionHash: string;
+  transactionIndex: bigint;
+  blockHash: string;
+  blockNumber: bigint;
+  from: string;
+  to: string | null;
+  cumulativeGasUsed: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice?: bigint;
+  contractAddress: string | null;
+  logs: Log[];
+  logsBloom: string;
+  /** 1 for success, 0 for failure (post-Byzantium receipts). */
+  status?: number;
+  /** State root (pre-Byzantium receipts). */
+  root?: string;
+  type?: number;
+  [key: string]: any;
+}
+
+export interface Block {
+  /** Null for pending blocks. */
+  number: bigint | null;
+  hash: string | null;
+  parentHash: string;
+  nonce: string | null;
+  sha3Uncles: string;
+  logsBloom: string | null;
+  transactionsRoot: string;
+  stateRoot: string;
+  receiptsRoot: string;
+  miner: string;
+  difficulty: bigint;
+  totalDifficulty?: bigint;
+  extraData: string;
+  size: bigint;
+  gasLimit: bigint;
+  gasUsed: bigint;
+  timestamp: bigint;
+  baseFeePerGas?: bigint;
+  mixHash?: string;
+  /** Transaction hashes, or full transactions when requested with `full = true`. */
+  transactions: string[] | Transaction[];
+  uncles: string[];
+  [key: string]: any;
+}
+
+type Codec = (value: any) => any;
+
+const quantity: Codec = (value) => BigInt(value);
+const number: Codec = (value) => Number(value);
+const hex: Codec = (value) => String(value);
+const bool: Codec = (value) => Boolean(value);
+
+function arrayOf(codec: Codec): Codec {
+  return (value) => (Array.isArray(value) ? value.map(codec) : []);
+}
+
+/**
+ * Builds a codec that applies `format` to the non-null fields of an object and keeps any other field as-is.
+ */
+function object(format: Record<string, Codec>): Codec {
+  return (value) => {
+    const out: Record<string, any> = { ...value };
+    for (const [key, codec] of Object.entries(format)) {
+      if (value[key] !== null && value[key] !== undefined) out[key] = codec(value[key]);
+    }
+    return out;
+  };
+}
+
+const formatLogObject = object({
+  address: hex,
+  topics: arrayOf(hex),
+  data: hex,
+  blockNumber: quantity,
+  blockHash: hex,
+  transactionHash: hex,
+  transactionIndex: quantity,
+  logIndex: quantity,
+  removed: bool,
+});
+
+const formatTransactionObject = object({
+  hash: hex,
+  blockHash: hex,
+  blockNumber: quantity,
+  transactionIndex: quantity,
+  from: hex,
+  to: hex,
+  nonce: quantity,
+  gas: quantity,
+  gasPrice: quantity,
+  maxFeePerGas: quantity,
+  maxPriorityFeePerGas: quantity,
+  value: quantity,
+  input: hex,
+  type: number,
+  chainId: quantity,
+  accessList: arrayOf(object({ address: hex, storageKeys: arrayOf(hex) })),
+  v: quantity,
+  r: hex,
+  s: hex,
+});
+
+const formatReceiptObject = object({
+  transactionHash: hex,
+  transactionIndex: quantity,
+  blockHash: hex,
+  blockNumber: quantity,
+  from: hex,
+  to: hex,
+  cumulativeGasUsed: quantity,
+  gasUsed: quantity,
+  effectiveGasPrice: quantity,
+  contractAddress: hex,
+  logs: arrayOf(formatLogObject),
+  logsBloom: hex,
+  status: number,
+  root: hex,
+  type: number,
+});
+
+const formatBlockObject = object({
+  number: quantity,
+  hash: hex,
+  parentHash: hex,
+  nonce: hex,
+  sha3Uncles: hex,
+  logsBloom: hex,
+  transactionsRoot: hex,
+  stateRoot: hex,
+  receiptsRoot: hex,
+  miner: hex,
+  difficulty: quantity,
+  totalDifficulty: quantity,
+  extraData: hex,
+  size: quantity,
+  gasLimit: quantity,
+  gasUsed: quantity,
+  timestamp: quantity,
+  baseFeePerGas: quantity,
+  mixHash: hex,
+  transactions: arrayOf((tx) => (typeof tx === 'string' ? tx : formatTransactionObject(tx))),
+  uncles: arrayOf(hex),
+});
+
+/**
+ * Decodes a raw `eth_getBlockBy*` result. Returns null when the block was not found.
+ */
+export function formatBlock(value: any): Block | null {
+  return value ? formatBlockObject(value) : null;
+}
+
+/**
+ * Decodes a raw `eth_getTransactionBy*` result. Returns null when the transaction was not found.
+ */
+export function formatTransaction(value: any): Transaction | null {
+  return value ? formatTransactionObject(value) : null;
+}
+
+/**
+ * Decodes a raw `eth_getTransactionReceipt` result. Returns null while the transaction is pending.
+ */
+export function formatReceipt(value: any): TransactionReceipt | null {
+  return value ? formatReceiptObject(value) : null;
+}
+
+/**
+ * Decodes a raw log entry (from `eth_getLogs`, receipts or `logs` subscriptions).
+ */
+export function formatLog(value: any): Log {
+  return formatLogObject(value);
+}
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { AuthOptions, resolveHeaders } from './auth';
 import {
   hexToEther,
   hexToDecimalString
@@ -11,6 +12,8 @@ export interface GraphqlParams {
     cursor?: string | null;
     count: number;
   };
+  /** Headers and credentials for the GraphQL endpoint. */
+  auth?: AuthOptions;
 }
 
 /**
@@ -126,7 +129,7 @@ export async function getAllTransactions(params: GraphqlParams): Promise<any> {
       query,
       variables
     }, {
-      headers: { 'Content-Type': 'application/json' }
+      headers: { 'Content-Type': 'application/json', ...(await resolveHeaders(params.auth)) }
     });
 
     const result = response?.data;
@@ -198,6 +201,8 @@ export interface TokenParams {
   variables: {
     address: string;
   };
+  /** Headers and credentials for the GraphQL endpoint. */
+  auth?: AuthOptions;
 }
 
 export async function getAllTokens(params: TokenParams): Promise<any> {
@@ -229,7 +234,7 @@ export async function getAllTokens(params: TokenParams): Promise<any> {
       query,
       variables
     }, {
-      headers: { 'Content-Type': 'application/json' }
+      headers: { 'Content-Type': 'application/json', ...(await resolveHeaders(params.auth)) }
     });
     const result = response?.data;
     const account = result?.data?.account;
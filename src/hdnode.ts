@@ -0,0 +1,149 @@
+import { ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import { BytesLike, Mnemonic, computeHmac, concat, getBytes, hexlify, randomBytes, toUtf8Bytes } from 'ethers';
+import { publicKeyToAddress } from './message';
+
+/** Path used by `Wallet.fromMnemonic` when none is given. */
+export const DEFAULT_PATH = "m/44'/60'/0'/0'/0'";
+
+/** HMAC key for the master node, so seeds are not shared with secp256k1 BIP-32 trees. */
+const MASTER_SECRET = toUtf8Bytes('ML-DSA-87 seed');
+const HARDENED = 0x80000000;
+
+/**
+ * Generates a new random BIP-39 mnemonic.
+ * @param wordCount 12, 15, 18, 21 or 24 words; 24 (256 bits of entropy) by default.
+ */
+export function generateMnemonic(wordCount: 12 | 15 | 18 | 21 | 24 = 24): string {
+  return Mnemonic.fromEntropy(randomBytes((wordCount / 3) * 4)).phrase;
+}
+
+/**
+ * Returns true if `phrase` is a valid BIP-39 (English) mnemonic, including its checksum.
+ */
+export function isValidMnemonic(phrase: string): boolean {
+  return Mnemonic.isValidMnemonic(phrase);
+}
+
+function parseIndex(segment: string): number {
+  const match = segment.match(/^(\d+)('|h)?$/);
+  if (!match) {
+    throw new Error(`Invalid path segment "${segment}"`);
+  }
+  const index = Number(match[1]);
+  if (index >= HARDENED) {
+    throw new Error(`Path index ${index} out of range`);
+  }
+  return index;
+}
+
+/**
+ * A node in a deterministic ML-DSA-87 key tree.
+ *
+ * ML-DSA keys cannot be derived from a parent public key the way secp256k1 keys are, so every step
+ * is hardened: each child's 32-byte key seed and chain code come from
+ * `HMAC-SHA512(chainCode, 0x00 || keySeed || index + 2^31)` (as in SLIP-10), and the keypair is
+ * `ML-DSA-87.KeyGen(keySeed)`. Path segments may omit the `'`, but are always derived hardened.
+ */
+export class HDNode {
+  /** Derivation path from the master node, e.g. `m/44'/60'/0'/0'/0'`. */
+  public readonly path: string;
+  public readonly depth: number;
+  /** Unhardened index of this node within its parent. */
+  public readonly index: number;
+  public readonly chainCode: string;
+  /** The phrase this tree was created from, if any. */
+  public readonly mnemonic?: string;
+  private readonly keySeed: Uint8Array;
+  private keys?: { privateKey: string; publicKey: string };
+
+  private constructor(keySeed: Uint8Array, chainCode: Uint8Array, path: string, index: number, mnemonic?: string) {
+    this.keySeed = keySeed;
+    this.chainCode = hexlify(chainCode);
+    this.path = path;
+    this.depth = path === 'm' ? 0 : path.split('/').length - 1;
+    this.index = index;
+    this.mnemonic = mnemonic;
+  }
+
+  /**
+   * Creates the master node from a BIP-39 seed (16 to 64 bytes).
+   */
+  static fromSeed(seed: BytesLike): HDNode {
+    const bytes = getBytes(seed);
+    if (bytes.length < 16 || bytes.length > 64) {
+      throw new Error(`Seed must be 16 to 64 bytes, got ${bytes.length}`);
+    }
+    return HDNode.fromHmac(computeHmac('sha512', MASTER_SECRET, bytes), 'm', 0);
+  }
+
+  /**
+   * Creates the master node from a BIP-39 mnemonic.
+   * @param phrase The mnemonic phrase.
+   * @param password Optional BIP-39 passphrase.
+   */
+  static fromMnemonic(phrase: string, password = ''): HDNode {
+    if (!Mnemonic.isValidMnemonic(phrase)) {
+      throw new Error('Invalid mnemonic phrase');
+    }
+    const mnemonic = Mnemonic.fromPhrase(phrase, password);
+    return HDNode.fromHmac(computeHmac('sha512', MASTER_SECRET, mnemonic.computeSeed()), 'm', 0, mnemonic.phrase);
+  }
+
+  private static fromHmac(digest: string, path: string, index: number, mnemonic?: string): HDNode {
+    const bytes = getBytes(digest);
+    return new HDNode(bytes.slice(0, 32), bytes.slice(32), path, index, mnemonic);
+  }
+
+  /**
+   * ML-DSA-87 secret key as hex, in the format `Wallet.create` takes.
+   */
+  get privateKey(): string {
+    return this.getKeys().privateKey;
+  }
+
+  get publicKey(): string {
+    return this.getKeys().publicKey;
+  }
+
+  /** Same as `privateKeyToAddress(this.privateKey)`. */
+  get address(): string {
+    return publicKeyToAddress(this.publicKey);
+  }
+
+  private getKeys(): { privateKey: string; publicKey: string } {
+    if (!this.keys) {
+      const { secretKey, publicKey } = ml_dsa87.keygen(this.keySeed);
+      this.keys = { privateKey: hexlify(secretKey).slice(2), publicKey: hexlify(publicKey) };
+    }
+    return this.keys;
+  }
+
+  /**
+   * Derives the (hardened) child at `index`.
+   */
+  derive(index: number): HDNode {
+    if (!Number.isSafeInteger(index) || index < 0 || index >= HARDENED) {
+      throw new Error(`Path index ${index} out of range`);
+    }
+    const data = new Uint8Array(4);
+    new DataView(data.buffer).setUint32(0, index + HARDENED);
+    const digest = computeHmac('sha512', this.chainCode, concat([new Uint8Array([0]), this.keySeed, data]));
+    return HDNode.fromHmac(digest, `${this.path}/${index}'`, index, this.mnemonic);
+  }
+
+  /**
+   * Derives a descendant by path. Paths starting with `m` are only valid on the master node;
+   * other paths are relative to this node.
+   * @param path e.g. `m/44'/60'/0'/0'/3'` or `0'/3'`.
+   */
+  derivePath(path: string): HDNode {
+    const segments = path.split('/');
+    if (segments[0] === 'm') {
+      if (this.depth !== 0) {
+        throw new Error(`Cannot derive absolute path "${path}" from non-master node ${this.path}`);
+      }
+      segments.shift();
+    }
+    return segments.filter((segment) => segment !== '').reduce<HDNode>((node, segment) => node.derive(parseIndex(segment)), this);
+  }
+}
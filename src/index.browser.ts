@@ -1,11 +1,32 @@
 // Browser-specific entry point - no Node.js imports
-export { Provider } from './provider';
+export { Provider, ProviderOptions, NumericMode, Quantity } from './provider';
+export { FallbackProvider, FallbackTransport, FallbackBackend, FallbackProviderOptions, BackendStatus, DisagreementReport, QuorumError, DEFAULT_QUORUM_METHODS } from './fallback-provider';
+export { Transport, TransportError, TimeoutError, AbortError, CallOptions, HttpTransport, WebSocketTransport, InMemoryTransport, InMemoryHandler } from './transport';
+export { RetryPolicy, DEFAULT_RETRY_POLICY, NON_IDEMPOTENT_METHODS } from './retry';
+export { BatchOptions, DEFAULT_BATCH_OPTIONS, RequestBatcher } from './batcher';
+export { CacheStore, CacheOptions, MemoryCache, ResponseCache } from './cache';
+export { RateLimitOptions, RateLimitedTransport, parseRetryAfter } from './rate-limiter';
+export { AuthOptions, AuthHeaders, HeaderFactory, resolveHeaders } from './auth';
+export { Block, Transaction, TransactionReceipt, Log, formatBlock, formatTransaction, formatReceipt, formatLog } from './formatter';
+export { TransactionResponse, TransactionRevertedError, TransactionReplacedError, TransactionDroppedError } from './transaction-response';
+export { NonceManager, NonceManagerOptions, NonceManagedSigner, NonceStore, MemoryNonceStore } from './nonce-manager';
+export { PopulateOptions, PopulatedTransaction, populateTransaction } from './populate';
+export { Amount, AmountLike } from './amount';
+export { SignedTransaction, DecodedTransaction, InvalidTransactionError, decodeSignedTransaction, hashSignedTransaction } from './signed-transaction';
+export { MESSAGE_PREFIX, hashMessage, verifyMessage, publicKeyToAddress } from './message';
+export { TypedDataDomain, TypedDataField, TypedDataTypes, hashDomain, hashStruct, hashTypedData, getTypedDataPayload, verifyTypedData } from './typed-data';
+export { KeystoreJson, EncryptOptions, ProgressCallback, KeystoreError, KEYSTORE_VERSION, encryptKeystore, decryptKeystore } from './keystore';
+export { HDNode, DEFAULT_PATH, generateMnemonic, isValidMnemonic } from './hdnode';
 export { Wallet, Signer, TxParams } from './wallet.browser';
+export { BaseWallet, CryptoBackend } from './wallet-core';
+export { AbstractSigner, ReplacementOptions, MIN_GAS_PRICE_BUMP } from './abstract-signer';
+export { RemoteSigner, RemoteSignerOptions, createSigningService } from './remote-signer';
+export { MultiSigWallet, MultiSigTransaction, MultiSigBundle, TypedDataSigner, MULTISIG_ABI, MULTISIG_TYPES } from './multisig';
 export { Contract } from './contract';
 export { InjectedProvider, ExtensionSigner } from './extension';
 export { ContractFactory } from './contract-factory';
 export { Subscription } from './subscription';
-export { hexToDecimalString, decimalToHex, parseUnits, etherToWeiHex, hexToEther, formatUnits, hexToNec, necToHex, weiToNec, serializeForRpc, normalizeResponse, isValidAddress, decimalToWei } from './utils';
+export { hexToDecimalString, hexToBigInt, decimalToHex, parseUnits, etherToWeiHex, hexToEther, formatUnits, hexToNec, necToHex, weiToNec, serializeForRpc, normalizeResponse, isValidAddress, decimalToWei } from './utils';
 export { getAllTransactions, getAllTokens } from './graphql';
 
 // Browser-specific MLKEM exports
@@ -0,0 +1,142 @@
+import type { Socket } from 'net';
+import { CallOptions, Transport, TransportError, withDeadline } from './transport';
+
+/**
+ * Sends JSON-RPC requests over a local IPC socket (a Unix domain socket or Windows named pipe),
+ * e.g. the `geth.ipc`-style endpoint exposed by a node running on the same machine. Node.js only.
+ */
+export class IpcTransport implements Transport {
+  public readonly path: string;
+  private socket?: Socket;
+  private connecting?: Promise<Socket>;
+  private buffer = '';
+  private idCounter = 1;
+  private pendingRequests: Map<number, { resolve: Function; reject: Function; id: any }> = new Map();
+
+  /**
+   * @param path Filesystem path of the IPC socket (e.g., "/var/lib/ncog/node.ipc").
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  get url(): string {
+    return `ipc://${this.path}`;
+  }
+
+  /**
+   * Sends a payload over the socket. A call that times out or is aborted is forgotten, so a late
+   * response for it is dropped.
+   */
+  async request(payload: any, options?: CallOptions): Promise<any> {
+    if (Array.isArray(payload)) {
+      return Promise.all(payload.map(p => this.request(p, options)));
+    }
+    const socket = await withDeadline(this.connect(), options);
+    const id = this.idCounter++;
+    const response = new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject, id: payload.id });
+      socket.write(JSON.stringify({ ...payload, id }) + '\n');
+    });
+    try {
+      return await withDeadline(response, options);
+    } finally {
+      this.pendingRequests.delete(id);
+    }
+  }
+
+  close() {
+    if (this.socket) {
+      this.socket.end();
+      this.socket = undefined;
+    }
+    this.connecting = undefined;
+    this.rejectPending(new TransportError(`IPC connection to ${this.path} closed`));
+  }
+
+  private connect(): Promise<Socket> {
+    if (!this.connecting) {
+      this.connecting = new Promise(async (resolve, reject) => {
+        try {
+          const net = await import('net');
+          const socket = net.createConnection(this.path);
+          socket.setEncoding('utf8');
+          socket.once('connect', () => {
+            this.socket = socket;
+            resolve(socket);
+          });
+          socket.on('data', (chunk: string) => this.onData(chunk));
+          socket.on('error', (err: Error) => {
+            this.connecting = undefined;
+            this.socket = undefined;
+            const error = new TransportError(`IPC connection to ${this.path} failed: ${err.message}`);
+            this.rejectPending(error);
+            reject(error);
+          });
+          socket.on('close', () => {
+            this.connecting = undefined;
+            this.socket = undefined;
+            this.rejectPending(new TransportError(`IPC connection to ${this.path} closed`));
+          });
+        } catch (err: any) {
+          this.connecting = undefined;
+          reject(new TransportError(`IPC transport is not available in this environment: ${err?.message || err}`));
+        }
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Nodes write responses back-to-back on the stream, not always newline-delimited,
+   * so split complete top-level JSON values by tracking brace depth outside of strings.
+   */
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === '{' || ch === '[') depth++;
+      else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 0) {
+          this.dispatch(this.buffer.slice(start, i + 1));
+          start = i + 1;
+        }
+      }
+    }
+    this.buffer = this.buffer.slice(start).replace(/^\s+/, '');
+  }
+
+  private dispatch(raw: string) {
+    let msg: any;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    for (const res of Array.isArray(msg) ? msg : [msg]) {
+      const pending = this.pendingRequests.get(res?.id);
+      if (!pending) continue;
+      this.pendingRequests.delete(res.id);
+      pending.resolve({ ...res, id: pending.id });
+    }
+  }
+
+  private rejectPending(error: Error) {
+    for (const { reject } of this.pendingRequests.values()) {
+      reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+}
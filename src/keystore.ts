@@ -0,0 +1,157 @@
+import { concat, getBytes, hexlify, keccak256, randomBytes, scrypt, toUtf8Bytes } from 'ethers';
+
+/** Current keystore format version, written to the `version` field. */
+export const KEYSTORE_VERSION = 1;
+
+/** Cipher identifier for the WASM `symEncrypt`/`symDecrypt` authenticated encryption. */
+export const KEYSTORE_CIPHER = 'mlkem-sym';
+
+/** Called with a value between 0 and 1 while the KDF runs. */
+export type ProgressCallback = (progress: number) => void;
+
+/**
+ * Versioned JSON keystore holding an encrypted private key.
+ */
+export interface KeystoreJson {
+  version: number;
+  address: string;
+  crypto: {
+    kdf: 'scrypt';
+    kdfparams: { n: number; r: number; p: number; dklen: number; salt: string };
+    cipher: string;
+    cipherparams: { version: string };
+    ciphertext: string;
+    /** keccak256 of the second half of the derived key and the ciphertext; checks the password before decrypting. */
+    mac: string;
+  };
+}
+
+export interface EncryptOptions {
+  /** scrypt parameters; the defaults (N = 2^17, r = 8, p = 1) take around a second. */
+  scrypt?: { N?: number; r?: number; p?: number };
+  /** 32 random bytes by default. */
+  salt?: string | Uint8Array;
+  progressCallback?: ProgressCallback;
+}
+
+/**
+ * Thrown when a keystore is malformed, uses an unsupported format, or the password is wrong.
+ */
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+interface SymmetricCipher {
+  symEncrypt(ssKey: string, message: string): Promise<{ encryptedData: string; version: string }>;
+  symDecrypt(ssKey: string, encryptedData: string, version: string): Promise<string>;
+  privateKeyToAddress(privateKey: string): string;
+}
+
+const DKLEN = 64;
+
+function passwordBytes(password: string | Uint8Array): Uint8Array {
+  return typeof password === 'string' ? toUtf8Bytes(password.normalize('NFKC')) : password;
+}
+
+function computeMac(derivedKey: Uint8Array, ciphertext: string, version: string): string {
+  return keccak256(concat([derivedKey.slice(32), toUtf8Bytes(`${version}:${ciphertext}`)]));
+}
+
+/**
+ * Encrypts a private key into a JSON keystore.
+ * @param mlkem Loaded WASM module providing `symEncrypt`.
+ * @param privateKey Secret key as hex, as returned by `Wallet.exportPrivateKey`.
+ * @param password Password as a string (NFKC-normalised) or raw bytes.
+ * @param options scrypt parameters, salt and progress callback.
+ * @returns The keystore as a JSON string.
+ */
+export async function encryptKeystore(
+  mlkem: SymmetricCipher,
+  privateKey: string,
+  password: string | Uint8Array,
+  options: EncryptOptions = {}
+): Promise<string> {
+  const { N = 131072, r = 8, p = 1 } = options.scrypt || {};
+  const salt = options.salt !== undefined ? getBytes(options.salt) : randomBytes(32);
+  const derivedKey = getBytes(await scrypt(passwordBytes(password), salt, N, r, p, DKLEN, options.progressCallback));
+
+  const { encryptedData, version } = await mlkem.symEncrypt(hexlify(derivedKey.slice(0, 32)).slice(2), privateKey);
+  const keystore: KeystoreJson = {
+    version: KEYSTORE_VERSION,
+    address: mlkem.privateKeyToAddress(privateKey),
+    crypto: {
+      kdf: 'scrypt',
+      kdfparams: { n: N, r, p, dklen: DKLEN, salt: hexlify(salt).slice(2) },
+      cipher: KEYSTORE_CIPHER,
+      cipherparams: { version },
+      ciphertext: encryptedData,
+      mac: computeMac(derivedKey, encryptedData, version).slice(2),
+    },
+  };
+  return JSON.stringify(keystore);
+}
+
+function parseKeystore(json: string | KeystoreJson): KeystoreJson {
+  let keystore: any;
+  try {
+    keystore = typeof json === 'string' ? JSON.parse(json) : json;
+  } catch {
+    throw new KeystoreError('Keystore is not valid JSON');
+  }
+  if (keystore?.version !== KEYSTORE_VERSION) {
+    throw new KeystoreError(`Unsupported keystore version ${keystore?.version}`);
+  }
+  const crypto = keystore.crypto;
+  if (crypto?.kdf !== 'scrypt') {
+    throw new KeystoreError(`Unsupported keystore KDF ${crypto?.kdf}`);
+  }
+  if (crypto.cipher !== KEYSTORE_CIPHER) {
+    throw new KeystoreError(`Unsupported keystore cipher ${crypto.cipher}`);
+  }
+  const { n, r, p, dklen, salt } = crypto.kdfparams || {};
+  if (![n, r, p].every(Number.isSafeInteger) || dklen !== DKLEN || typeof salt !== 'string') {
+    throw new KeystoreError('Invalid keystore KDF parameters');
+  }
+  if (typeof crypto.ciphertext !== 'string' || typeof crypto.mac !== 'string' || typeof crypto.cipherparams?.version !== 'string') {
+    throw new KeystoreError('Invalid keystore ciphertext');
+  }
+  return keystore;
+}
+
+/**
+ * Decrypts a JSON keystore written by `encryptKeystore`.
+ * @param mlkem Loaded WASM module providing `symDecrypt`.
+ * @param json The keystore, as a JSON string or parsed object.
+ * @param password The password it was encrypted with.
+ * @param progressCallback Called with the KDF progress.
+ * @returns The private key, as hex.
+ */
+export async function decryptKeystore(
+  mlkem: SymmetricCipher,
+  json: string | KeystoreJson,
+  password: string | Uint8Array,
+  progressCallback?: ProgressCallback
+): Promise<string> {
+  const { address, crypto } = parseKeystore(json);
+  const { n, r, p, dklen, salt } = crypto.kdfparams;
+  const derivedKey = getBytes(await scrypt(passwordBytes(password), '0x' + salt, n, r, p, dklen, progressCallback));
+
+  // The WASM cipher is authenticated too, but checking the MAC first gives a clear error
+  const { ciphertext, cipherparams: { version } } = crypto;
+  if (computeMac(derivedKey, ciphertext, version).slice(2) !== crypto.mac.replace(/^0x/, '').toLowerCase()) {
+    throw new KeystoreError('Invalid password');
+  }
+  let privateKey: string;
+  try {
+    privateKey = await mlkem.symDecrypt(hexlify(derivedKey.slice(0, 32)).slice(2), ciphertext, version);
+  } catch (err: any) {
+    throw new KeystoreError(`Could not decrypt keystore: ${err?.message || err}`);
+  }
+  if (address && mlkem.privateKeyToAddress(privateKey).toLowerCase() !== address.toLowerCase()) {
+    throw new KeystoreError('Keystore address does not match the decrypted key');
+  }
+  return privateKey;
+}
@@ -0,0 +1,108 @@
+import { ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import { concat, getAddress, getBytes, hexlify, keccak256, toUtf8Bytes } from 'ethers';
+import { decodeSignedTransaction } from './signed-transaction';
+
+/**
+ * Prepended to every message before hashing, so a signed message can never be a valid transaction.
+ */
+export const MESSAGE_PREFIX = '\x19NCOG Signed Message:\n';
+
+/** Length in bytes of an ML-DSA-87 signature. */
+export const MLDSA87_SIGNATURE_LENGTH = 4627;
+/** Length in bytes of an ML-DSA-87 public key. */
+export const MLDSA87_PUBLIC_KEY_LENGTH = 2592;
+
+function messageBytes(message: string | Uint8Array): Uint8Array {
+  return typeof message === 'string' ? toUtf8Bytes(message) : message;
+}
+
+/**
+ * Returns the prefixed hash that `signMessage` signs:
+ * `keccak256("\x19NCOG Signed Message:\n" + length + message)`.
+ * @param message A UTF-8 string or raw bytes.
+ */
+export function hashMessage(message: string | Uint8Array): string {
+  const bytes = messageBytes(message);
+  return keccak256(concat([toUtf8Bytes(MESSAGE_PREFIX), toUtf8Bytes(String(bytes.length)), bytes]));
+}
+
+/**
+ * Derives the (checksummed) address for an ML-DSA-87 public key: the last 20 bytes of its keccak256 hash.
+ */
+export function publicKeyToAddress(publicKey: string | Uint8Array): string {
+  return getAddress('0x' + keccak256(publicKey).slice(-40));
+}
+
+/**
+ * Derives the public key for an ML-DSA-87 secret key. The WASM module has no direct export for this,
+ * so a throwaway transaction is signed and the public key read back from its RLP.
+ * @param mlkem Loaded WASM module.
+ * @param secretKey Secret key as hex, as returned by `Wallet.exportPrivateKey`.
+ */
+export function derivePublicKey(
+  mlkem: { signTransactionMLDSA87(tx: any, privateKeyHex: string): any; decodeRLPTransaction(txHex: string): any },
+  secretKey: string
+): string {
+  const signed = mlkem.signTransactionMLDSA87({
+    nonce: 0, gasPrice: '0x0', gasLimit: '0x1', to: '0x' + '00'.repeat(20), value: '0x0', data: '0x', chainId: 1,
+  }, secretKey);
+  return decodeSignedTransaction(mlkem, signed.raw || signed.rawTransaction).publicKey;
+}
+
+/**
+ * Signs a 32-byte digest with an ML-DSA-87 secret key. The result is the signature followed by
+ * the public key, so it can be verified against an address.
+ * @param digest Hex digest, e.g. from `hashMessage`.
+ * @param secretKey Secret key as hex (with or without `0x`).
+ * @param publicKey The matching public key as hex.
+ */
+export function signDigest(digest: string, secretKey: string, publicKey: string): string {
+  const sk = getBytes(secretKey.startsWith('0x') ? secretKey : '0x' + secretKey);
+  const signature = ml_dsa87.sign(sk, getBytes(digest));
+  return hexlify(concat([signature, publicKey]));
+}
+
+/**
+ * Checks an ML-DSA-87 signature over a 32-byte digest.
+ * @param digest Hex digest that was signed.
+ * @param signature Signature from `signDigest`, or a bare signature when a public key is given.
+ * @param publicKeyOrAddress The signer's public key, or their address (needs the embedded public key).
+ */
+export function verifyDigest(digest: string, signature: string, publicKeyOrAddress: string): boolean {
+  let bytes: Uint8Array;
+  let expected: Uint8Array;
+  try {
+    bytes = getBytes(signature);
+    expected = getBytes(publicKeyOrAddress);
+  } catch {
+    return false;
+  }
+  const sig = bytes.slice(0, MLDSA87_SIGNATURE_LENGTH);
+  const embedded = bytes.length === MLDSA87_SIGNATURE_LENGTH + MLDSA87_PUBLIC_KEY_LENGTH
+    ? bytes.slice(MLDSA87_SIGNATURE_LENGTH)
+    : undefined;
+  if (!embedded && bytes.length !== MLDSA87_SIGNATURE_LENGTH) return false;
+
+  let publicKey: Uint8Array;
+  if (expected.length === 20) {
+    if (!embedded || publicKeyToAddress(embedded).toLowerCase() !== hexlify(expected)) return false;
+    publicKey = embedded;
+  } else if (expected.length === MLDSA87_PUBLIC_KEY_LENGTH) {
+    if (embedded && hexlify(embedded) !== hexlify(expected)) return false;
+    publicKey = expected;
+  } else {
+    return false;
+  }
+  return ml_dsa87.verify(publicKey, getBytes(digest), sig);
+}
+
+/**
+ * Verifies a signature produced by `signMessage` on `Wallet`, `Signer` or `ExtensionSigner`.
+ * @param message The signed string or bytes.
+ * @param signature The signature (with the embedded public key when checking against an address).
+ * @param publicKeyOrAddress The expected signer, as a public key or an address.
+ * @returns True if the signature is valid for that signer.
+ */
+export function verifyMessage(message: string | Uint8Array, signature: string, publicKeyOrAddress: string): boolean {
+  return verifyDigest(hashMessage(message), signature, publicKeyOrAddress);
+}
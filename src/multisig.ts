@@ -0,0 +1,286 @@
+import { getAddress, getBytes, hexlify, isHexString } from 'ethers';
+import { Contract, ISigner } from './contract';
+import { ContractFactory } from './contract-factory';
+import type { NumericMode, Provider } from './provider';
+import type { CallOptions } from './transport';
+import type { TransactionResponse } from './transaction-response';
+import type { PopulateOptions } from './populate';
+import { Amount, AmountLike } from './amount';
+import { MLDSA87_PUBLIC_KEY_LENGTH, MLDSA87_SIGNATURE_LENGTH, publicKeyToAddress } from './message';
+import { TypedDataDomain, TypedDataTypes, hashTypedData, verifyTypedData } from './typed-data';
+
+/**
+ * Interface of the multisig contract `MultiSigWallet` drives. `execute` must check that the
+ * signatures (ML-DSA-87 signature followed by the public key, sorted by signer address) come from
+ * at least `threshold` distinct owners over the typed-data digest of `MULTISIG_TYPES`, then
+ * increment `nonce` and make the call.
+ */
+export const MULTISIG_ABI = [
+  'constructor(address[] owners, uint256 threshold)',
+  'function getOwners() view returns (address[])',
+  'function threshold() view returns (uint256)',
+  'function nonce() view returns (uint256)',
+  'function execute(address to, uint256 value, bytes data, bytes[] signatures) returns (bytes)',
+  'event Executed(uint256 indexed nonce, address indexed to, uint256 value, bytes data)',
+];
+
+/** Typed-data struct owners sign, with the domain `{ name: 'MultiSigWallet', version: '1', chainId, verifyingContract }`. */
+export const MULTISIG_TYPES = {
+  Transaction: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+/**
+ * JSON form of a `MultiSigTransaction`, passed between owners while collecting signatures.
+ */
+export interface MultiSigBundle {
+  version: 1;
+  chainId: number;
+  /** Address of the multisig contract. */
+  multisig: string;
+  owners: string[];
+  threshold: number;
+  /** `value` and `nonce` are decimal strings. */
+  transaction: { to: string; value: string; data: string; nonce: string };
+  signatures: { signer: string; signature: string }[];
+}
+
+/** Anything that signs typed data with ML-DSA-87: `Wallet`, `Signer`, `RemoteSigner`, `ExtensionSigner`. */
+export interface TypedDataSigner {
+  signTypedData(domain: TypedDataDomain, types: TypedDataTypes, value: Record<string, any>): Promise<string>;
+}
+
+/**
+ * A proposed multisig transaction and the owner signatures collected for it so far. Signing and
+ * checking signatures needs no provider, so owners can sign offline and pass the bundle on as JSON.
+ */
+export class MultiSigTransaction {
+  public readonly chainId: number;
+  public readonly multisig: string;
+  public readonly owners: string[];
+  public readonly threshold: number;
+  public readonly to: string;
+  public readonly value: bigint;
+  public readonly data: string;
+  public readonly nonce: bigint;
+  private signatures = new Map<string, string>();
+
+  constructor(bundle: Omit<MultiSigBundle, 'version' | 'signatures'>) {
+    this.chainId = bundle.chainId;
+    this.multisig = getAddress(bundle.multisig);
+    this.owners = bundle.owners.map((owner) => getAddress(owner));
+    this.threshold = bundle.threshold;
+    this.to = getAddress(bundle.transaction.to);
+    this.value = BigInt(bundle.transaction.value);
+    this.data = hexlify(bundle.transaction.data || '0x');
+    this.nonce = BigInt(bundle.transaction.nonce);
+  }
+
+  /**
+   * Restores a bundle written by `toJSON`, checking every signature in it.
+   */
+  static fromJSON(json: string | MultiSigBundle): MultiSigTransaction {
+    const bundle: MultiSigBundle = typeof json === 'string' ? JSON.parse(json) : json;
+    if (bundle?.version !== 1) {
+      throw new Error(`Unsupported multisig bundle version ${bundle?.version}`);
+    }
+    const tx = new MultiSigTransaction(bundle);
+    for (const { signature } of bundle.signatures || []) {
+      tx.addSignature(signature);
+    }
+    return tx;
+  }
+
+  get domain(): TypedDataDomain {
+    return { name: 'MultiSigWallet', version: '1', chainId: this.chainId, verifyingContract: this.multisig };
+  }
+
+  private get message(): Record<string, any> {
+    return { to: this.to, value: this.value, data: this.data, nonce: this.nonce };
+  }
+
+  /** The typed-data digest every owner signs. */
+  get digest(): string {
+    return hashTypedData(this.domain, MULTISIG_TYPES, this.message);
+  }
+
+  /** Owners that have signed, sorted by address. */
+  get signers(): string[] {
+    return this.sortedSigners();
+  }
+
+  /** True once `threshold` owners have signed. */
+  get isReady(): boolean {
+    return this.signatures.size >= this.threshold;
+  }
+
+  /**
+   * Signs the transaction with an owner's key and adds the signature.
+   * @param signer An owner's `Wallet` or signer.
+   */
+  async sign(signer: TypedDataSigner): Promise<this> {
+    this.addSignature(await signer.signTypedData(this.domain, MULTISIG_TYPES, this.message));
+    return this;
+  }
+
+  /**
+   * Adds an owner signature produced elsewhere (e.g. `wallet.signTypedData(tx.domain, MULTISIG_TYPES, ...)`).
+   * The signer is read from the embedded public key.
+   * @throws Error if the signature is invalid or not from an owner.
+   */
+  addSignature(signature: string): this {
+    const bytes = isHexString(signature) ? getBytes(signature) : new Uint8Array();
+    if (bytes.length !== MLDSA87_SIGNATURE_LENGTH + MLDSA87_PUBLIC_KEY_LENGTH) {
+      throw new Error('Multisig signatures must include the signer public key');
+    }
+    const signer = publicKeyToAddress(bytes.slice(MLDSA87_SIGNATURE_LENGTH));
+    if (!this.owners.includes(signer)) {
+      throw new Error(`${signer} is not an owner of multisig ${this.multisig}`);
+    }
+    if (!verifyTypedData(this.domain, MULTISIG_TYPES, this.message, signature, signer)) {
+      throw new Error(`Invalid signature from ${signer}`);
+    }
+    this.signatures.set(signer, hexlify(bytes));
+    return this;
+  }
+
+  /**
+   * Adds the signatures from another copy of the same transaction, e.g. one signed by a different owner.
+   */
+  merge(other: MultiSigTransaction): this {
+    if (other.digest !== this.digest) {
+      throw new Error('Cannot merge signatures for a different multisig transaction');
+    }
+    other.signatures.forEach((signature) => this.addSignature(signature));
+    return this;
+  }
+
+  /** Signatures sorted by signer address, as `execute` expects them. */
+  getSignatures(): string[] {
+    return this.sortedSigners().map((signer) => this.signatures.get(signer)!);
+  }
+
+  private sortedSigners(): string[] {
+    return [...this.signatures.keys()].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  }
+
+  toJSON(): MultiSigBundle {
+    return {
+      version: 1,
+      chainId: this.chainId,
+      multisig: this.multisig,
+      owners: this.owners,
+      threshold: this.threshold,
+      transaction: { to: this.to, value: this.value.toString(), data: this.data, nonce: this.nonce.toString() },
+      signatures: this.sortedSigners().map((signer) => ({ signer, signature: this.signatures.get(signer)! })),
+    };
+  }
+}
+
+/**
+ * Client for an M-of-N multisig contract (see `MULTISIG_ABI`): propose a transaction, collect owner
+ * signatures offline with `MultiSigTransaction`, and submit it once the threshold is met.
+ */
+export class MultiSigWallet<N extends NumericMode = 'number'> {
+  public readonly contract: Contract<N>;
+
+  /**
+   * @param address Address of the deployed multisig contract.
+   * @param provider Provider used to read the contract.
+   * @param signer Account that pays for `submit`; it need not be an owner.
+   */
+  constructor(address: string, provider: Provider<N>, signer?: ISigner) {
+    this.contract = new Contract(address, MULTISIG_ABI, provider, signer);
+  }
+
+  get address(): string {
+    return this.contract.address;
+  }
+
+  /**
+   * Deploys a multisig contract with `ContractFactory`.
+   * @param bytecode Creation bytecode of a contract implementing `MULTISIG_ABI`.
+   * @param owners Owner addresses.
+   * @param threshold Number of owner signatures `execute` requires.
+   * @param options Transaction options (gas, gasPrice, ...) for the deployment.
+   */
+  static async deploy<N extends NumericMode = 'number'>(
+    {
+      bytecode,
+      owners,
+      threshold,
+      provider,
+      signer,
+      populateOptions,
+    }: { bytecode: string; owners: string[]; threshold: number; provider: Provider<N>; signer: ISigner; populateOptions?: PopulateOptions },
+    options: Record<string, any> = {},
+    callOptions?: CallOptions
+  ): Promise<MultiSigWallet<N>> {
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > owners.length) {
+      throw new Error(`Threshold must be between 1 and ${owners.length}, got ${threshold}`);
+    }
+    const factory = new ContractFactory(MULTISIG_ABI, bytecode, provider, signer, populateOptions);
+    const contract = await factory.deploy([owners, threshold], options, callOptions);
+    return new MultiSigWallet(contract.address, provider, signer);
+  }
+
+  async getOwners(callOptions?: CallOptions): Promise<string[]> {
+    const owners: string[] = await this.contract.call('getOwners', [], {}, callOptions);
+    return owners.map((owner) => getAddress(owner));
+  }
+
+  async getThreshold(callOptions?: CallOptions): Promise<number> {
+    return Number(await this.contract.call('threshold', [], {}, callOptions));
+  }
+
+  /** The nonce the next executed transaction must use. */
+  async getNonce(callOptions?: CallOptions): Promise<bigint> {
+    return BigInt(await this.contract.call('nonce', [], {}, callOptions));
+  }
+
+  /**
+   * Proposes a transaction for the owners to sign, reading the chain id, owners, threshold and
+   * current nonce from the chain.
+   * @param tx Call to make from the multisig; `value` takes an explicit unit, e.g. `{ nec: '1' }`.
+   * @param nonce Overrides the contract nonce, e.g. to queue several transactions.
+   */
+  async propose(tx: { to: string; value?: AmountLike; data?: string }, nonce?: bigint, callOptions?: CallOptions): Promise<MultiSigTransaction> {
+    const [chainId, owners, threshold, currentNonce] = await Promise.all([
+      this.contract.provider.getChainId(callOptions),
+      this.getOwners(callOptions),
+      this.getThreshold(callOptions),
+      nonce === undefined ? this.getNonce(callOptions) : Promise.resolve(nonce),
+    ]);
+    return new MultiSigTransaction({
+      chainId: Number(chainId),
+      multisig: this.address,
+      owners,
+      threshold,
+      transaction: {
+        to: tx.to,
+        value: Amount.from(tx.value ?? 0).wei.toString(),
+        data: tx.data || '0x',
+        nonce: currentNonce.toString(),
+      },
+    });
+  }
+
+  /**
+   * Submits a fully signed transaction by calling `execute` through this wallet's signer.
+   * @param tx The transaction, with at least `threshold` owner signatures.
+   * @param options Transaction options for the `execute` call.
+   */
+  async submit(tx: MultiSigTransaction, options: Record<string, any> = {}, callOptions?: CallOptions): Promise<TransactionResponse> {
+    if (tx.multisig !== getAddress(this.address)) {
+      throw new Error(`Transaction is for multisig ${tx.multisig}, not ${this.address}`);
+    }
+    if (!tx.isReady) {
+      throw new Error(`Multisig transaction has ${tx.signers.length} of ${tx.threshold} required signatures`);
+    }
+    return this.contract.send('execute', [tx.to, tx.value, tx.data, tx.getSignatures()], options, callOptions);
+  }
+}
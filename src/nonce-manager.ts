@@ -0,0 +1,141 @@
+import type { NumericMode, Provider } from './provider';
+import type { CallOptions } from './transport';
+import type { TransactionResponse } from './transaction-response';
+import type { TxParams } from './wallet-core';
+
+/**
+ * Storage for the next nonce of each account. `next` must be atomic per key: concurrent callers
+ * (possibly in other processes, e.g. with Redis `INCR`) each get a different nonce.
+ */
+export interface NonceStore {
+  /**
+   * Returns the next nonce for `key` and advances the stored value.
+   * @param key Account key.
+   * @param init Reads the starting nonce from the node; called when nothing is stored for `key`.
+   */
+  next(key: string, init: () => Promise<bigint>): Promise<bigint>;
+  /** Forgets the stored nonce so the next call reads it from the node again. */
+  reset(key: string): Promise<void> | void;
+}
+
+/**
+ * In-process `NonceStore`. Calls for the same key are serialised, so the node is only asked once.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, bigint>();
+  private locks = new Map<string, Promise<unknown>>();
+
+  next(key: string, init: () => Promise<bigint>): Promise<bigint> {
+    const run = (this.locks.get(key) || Promise.resolve()).then(async () => {
+      let nonce = this.nonces.get(key);
+      if (nonce === undefined) {
+        nonce = await init();
+      }
+      this.nonces.set(key, nonce + BigInt(1));
+      return nonce;
+    });
+    this.locks.set(key, run.catch(() => undefined));
+    return run;
+  }
+
+  reset(key: string) {
+    this.nonces.delete(key);
+  }
+}
+
+/**
+ * The part of a signer `NonceManager` needs: `Signer` from `Wallet.connect()` fits.
+ */
+export interface NonceManagedSigner {
+  readonly provider: Provider<NumericMode>;
+  getAddress(): Promise<string>;
+  sendTransaction(tx: TxParams, options?: CallOptions): Promise<TransactionResponse>;
+}
+
+export interface NonceManagerOptions {
+  /** Where nonces are kept. Share one store (e.g. backed by Redis) between processes sending from the same account. Defaults to a `MemoryNonceStore`. */
+  store?: NonceStore;
+  /** Store key for the account. Defaults to the lower-cased address. */
+  key?: string;
+}
+
+/**
+ * Wraps a signer and fills in `nonce` for every transaction. The pending nonce is fetched once and then
+ * incremented locally, so concurrent sends never collide. After a failed send the nonce is read from
+ * the node again, once none of this manager's sends are still in flight.
+ */
+export class NonceManager {
+  public readonly signer: NonceManagedSigner;
+  public readonly store: NonceStore;
+  private key?: string;
+  private inFlight = 0;
+  private stale = false;
+
+  constructor(signer: NonceManagedSigner, options: NonceManagerOptions = {}) {
+    this.signer = signer;
+    this.store = options.store || new MemoryNonceStore();
+    this.key = options.key;
+  }
+
+  get provider(): Provider<NumericMode> {
+    return this.signer.provider;
+  }
+
+  getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  /**
+   * Reserves the next nonce for this account.
+   * @param options Timeout and abort signal for the `eth_getTransactionCount` request, if one is needed.
+   */
+  async getNonce(options?: CallOptions): Promise<bigint> {
+    const address = await this.getAddress();
+    return this.store.next(await this.storeKey(), async () => {
+      return BigInt(await this.provider.getTransactionCount(address, 'pending', options));
+    });
+  }
+
+  /**
+   * Drops the locally tracked nonce; the next send reads it from the node. Call this after sending
+   * from the same account outside the manager.
+   */
+  async reset(): Promise<void> {
+    await this.store.reset(await this.storeKey());
+  }
+
+  /**
+   * Sends a transaction, assigning the next nonce unless `tx.nonce` is set.
+   * @param tx Transaction parameters; `nonce` is optional.
+   * @param options Timeout and abort signal.
+   */
+  async sendTransaction(tx: Omit<TxParams, 'nonce'> & { nonce?: any }, options?: CallOptions): Promise<TransactionResponse> {
+    if (tx.nonce !== undefined && tx.nonce !== null) {
+      return this.signer.sendTransaction(tx as TxParams, options);
+    }
+    this.inFlight++;
+    try {
+      const nonce = await this.getNonce(options);
+      try {
+        return await this.signer.sendTransaction({ ...tx, nonce: Number(nonce) }, options);
+      } catch (error) {
+        // The nonce may or may not have been consumed; resynchronise with the node. Sends still in
+        // flight hold nonces the node may not report yet, so wait until they have settled.
+        this.stale = true;
+        throw error;
+      }
+    } finally {
+      if (--this.inFlight === 0 && this.stale) {
+        this.stale = false;
+        await this.reset();
+      }
+    }
+  }
+
+  private async storeKey(): Promise<string> {
+    if (!this.key) {
+      this.key = (await this.getAddress()).toLowerCase();
+    }
+    return this.key;
+  }
+}
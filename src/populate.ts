@@ -0,0 +1,109 @@
+import type { NumericMode, Provider } from './provider';
+import { AbortError, CallOptions } from './transport';
+import { serializeForRpc } from './utils';
+
+/**
+ * Controls how missing fields are filled in by `populateTransaction`.
+ */
+export interface PopulateOptions {
+  /** Multiplier applied to `eth_estimateGas` for the gas limit. Defaults to 1.2. */
+  gasMultiplier?: number;
+  /** Upper bound for the gas limit; throws if the estimate alone is higher. */
+  maxGasLimit?: number | bigint;
+  /** Upper bound, in wei, for the gas price taken from the node. */
+  maxGasPrice?: number | bigint | string;
+  /** Gas limit used when estimation fails. If unset, the estimation error is thrown. */
+  fallbackGasLimit?: number;
+  /** Leave a missing nonce unset, for signers that assign nonces themselves (`NonceManager`, extension wallets). */
+  skipNonce?: boolean;
+}
+
+/**
+ * A transaction with every field needed for signing.
+ */
+export type PopulatedTransaction<T> = T & {
+  nonce: number;
+  chainId: number;
+  gasPrice: number | string;
+  /** Set unless the input already had `gas`. */
+  gasLimit?: number | string;
+};
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Fills in any missing `nonce` (pending count of `from`), `chainId`, `gasPrice` and gas limit
+ * (`eth_estimateGas` times `gasMultiplier`). Fields that are already set are left alone and the
+ * input object is not modified.
+ * @param provider Provider to read chain state from.
+ * @param tx Transaction parameters; `value` may be any `AmountLike`.
+ * @param options Gas multiplier, caps and fallback gas limit.
+ * @param callOptions Timeout and abort signal for each RPC request.
+ */
+export async function populateTransaction<T extends Record<string, any>>(
+  provider: Provider<NumericMode>,
+  tx: T,
+  options: PopulateOptions = {},
+  callOptions?: CallOptions
+): Promise<PopulatedTransaction<T>> {
+  const out: Record<string, any> = { ...tx };
+
+  if (isMissing(out.nonce) && !options.skipNonce) {
+    if (!out.from) {
+      throw new Error('Cannot populate nonce: transaction has no from address');
+    }
+    out.nonce = Number(await provider.getTransactionCount(out.from, 'pending', callOptions));
+  }
+
+  if (isMissing(out.chainId)) {
+    out.chainId = Number(await provider.getChainId(callOptions));
+  }
+
+  if (isMissing(out.gasPrice)) {
+    let gasPrice = BigInt(await provider.getGasPrice(callOptions));
+    if (options.maxGasPrice !== undefined && gasPrice > BigInt(options.maxGasPrice)) {
+      gasPrice = BigInt(options.maxGasPrice);
+    }
+    // Keep large prices exact; the signer accepts decimal strings
+    out.gasPrice = gasPrice <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(gasPrice) : gasPrice.toString();
+  }
+
+  if (isMissing(out.gas) && isMissing(out.gasLimit)) {
+    out.gasLimit = await estimateGasLimit(provider, out, options, callOptions);
+  }
+
+  return out as PopulatedTransaction<T>;
+}
+
+async function estimateGasLimit(
+  provider: Provider<NumericMode>,
+  tx: Record<string, any>,
+  options: PopulateOptions,
+  callOptions?: CallOptions
+): Promise<number> {
+  let estimate: bigint;
+  try {
+    estimate = BigInt(await provider.estimateGas(serializeForRpc({
+      from: tx.from,
+      to: tx.to || undefined,
+      data: tx.data,
+      value: tx.value,
+    }), callOptions));
+  } catch (err) {
+    if (err instanceof AbortError || options.fallbackGasLimit === undefined) throw err;
+    return options.fallbackGasLimit;
+  }
+
+  const multiplier = options.gasMultiplier ?? 1.2;
+  let gasLimit = (estimate * BigInt(Math.round(multiplier * 1000))) / BigInt(1000);
+  if (options.maxGasLimit !== undefined) {
+    const max = BigInt(options.maxGasLimit);
+    if (estimate > max) {
+      throw new Error(`Estimated gas ${estimate} exceeds maxGasLimit ${max}`);
+    }
+    if (gasLimit > max) gasLimit = max;
+  }
+  return Number(gasLimit);
+}
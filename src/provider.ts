@@ -1,5 +1,15 @@
-import axios, { AxiosError } from 'axios';
-import { normalizeResponse, serializeForRpc, weiToNec } from './utils';
+import { hexToBigInt, normalizeResponse, serializeForRpc, weiToNec } from './utils';
+import { CallOptions, HttpTransport, Transport, TransportError, WebSocketTransport, withDeadline } from './transport';
+import { Subscription } from './subscription';
+import type { MlKem } from './webassembly/mlkem';
+import { TransactionResponse } from './transaction-response';
+import { decodeSignedTransaction } from './signed-transaction';
+import { DEFAULT_RETRY_POLICY, NON_IDEMPOTENT_METHODS, RetryPolicy, withRetry } from './retry';
+import { BatchOptions, RequestBatcher } from './batcher';
+import { CacheOptions, ResponseCache } from './cache';
+import { RateLimitedTransport, RateLimitOptions } from './rate-limiter';
+import { AuthOptions } from './auth';
+import { Block, Log, Transaction, TransactionReceipt, formatBlock, formatLog, formatReceipt, formatTransaction } from './formatter';
 
 /**
  * Represents a structured error returned from a JSON-RPC call.
@@ -19,15 +29,93 @@ export class RpcError extends Error {
 export type ProviderRequestMiddleware = (payload: any) => Promise<any> | any;
 export type ProviderResponseMiddleware = (response: any, payload: any) => Promise<any> | any;
 
+/**
+ * How a `Provider` returns quantities: `'number'` (default, values above 2^53 come back as decimal strings)
+ * or `'bigint'` (always exact).
+ */
+export type NumericMode = 'number' | 'bigint';
+
+/**
+ * A quantity returned by a `Provider` in numeric mode `N`; `T` is the type used in `'number'` mode,
+ * where values above 2^53 come back as decimal strings.
+ */
+export type Quantity<N extends NumericMode, T = number | string> = N extends 'bigint' ? bigint : T;
+
+/**
+ * Optional behaviour for a `Provider`.
+ */
+export interface ProviderOptions<N extends NumericMode = NumericMode> {
+  /**
+   * Provider-wide retry policy. `true` uses `DEFAULT_RETRY_POLICY`; an object overrides parts of it.
+   * Retries are disabled when omitted.
+   */
+  retry?: boolean | Partial<RetryPolicy>;
+  /**
+   * Per-method overrides, e.g. `{ eth_getTransactionReceipt: { maxAttempts: 10 } }`.
+   * Non-idempotent methods such as `eth_sendRawTransaction` never retry unless listed here.
+   */
+  retryPolicies?: Record<string, Partial<RetryPolicy>>;
+  /**
+   * Default timeout in milliseconds for every request attempt. Individual calls may override it
+   * through their trailing `CallOptions` argument. No timeout when omitted.
+   */
+  timeout?: number;
+  /**
+   * Coalesce concurrent calls into JSON-RPC batches. `true` uses `DEFAULT_BATCH_OPTIONS`; an object
+   * sets `maxBatchSize` and `flushInterval`. Each call still resolves or rejects on its own.
+   */
+  batch?: boolean | Partial<BatchOptions>;
+  /**
+   * Return blocks, transactions, receipts and logs through `normalizeResponse` (quantities as numbers or
+   * decimal strings) instead of the typed models. Kept for code written against earlier releases.
+   */
+  legacyFormat?: boolean;
+  /** Numeric mode for quantities such as block numbers, nonces, gas and chain id. Defaults to `'number'`. */
+  numeric?: N;
+  /**
+   * Cache results of immutable and slow-changing calls. `true` uses an in-memory LRU; an object sets the
+   * store (e.g., a Redis adapter), the TTL for `latest` results and the confirmations required for permanence.
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Client-side request rate and concurrency limits for the endpoint. HTTP 429 responses are then
+   * queued again after the `Retry-After` delay instead of failing.
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Headers and credentials (static headers, header factory, bearer token, basic auth or API key) for the
+   * endpoint URL (each URL backend, for a `FallbackProvider`). Also used for WebSocket connections opened
+   * for contract events. Configure transports
+   * passed in directly through their own constructor.
+   */
+  auth?: AuthOptions;
+  /** How often, in milliseconds, to poll for new blocks when waiting on transactions without a WebSocket. Defaults to 4000. */
+  pollingInterval?: number;
+}
+
 /**
  * The Provider class is a low-level wrapper for making JSON-RPC requests to an NCOG chain node.
  * It handles request creation, error parsing, and provides convenience methods for all standard RPC calls.
+ * Requests are delivered by a pluggable `Transport` (HTTP by default). Every RPC method accepts
+ * trailing `CallOptions` to override the timeout or cancel the call with an `AbortSignal`.
+ * With `{ numeric: 'bigint' }`, quantities are returned as `bigint`.
  */
-export class Provider {
+export class Provider<N extends NumericMode = 'number'> {
+  public readonly pollingInterval: number;
   private url: string;
+  private transport?: Transport;
   private idCounter = 1;
   private requestMiddleware: ProviderRequestMiddleware[] = [];
   private responseMiddleware: ProviderResponseMiddleware[] = [];
+  private retry: boolean | Partial<RetryPolicy>;
+  private retryPolicies: Record<string, Partial<RetryPolicy>>;
+  private timeout?: number;
+  private batcher?: RequestBatcher;
+  private legacyFormat: boolean;
+  private numeric: NumericMode;
+  private cache?: ResponseCache;
+  private auth?: AuthOptions;
+  private mlkem?: Promise<MlKem>;
 
   /**
    * Register a request middleware function. Called before sending each request.
@@ -44,32 +132,161 @@ export class Provider {
   }
 
   /**
-   * @param url The URL of the JSON-RPC endpoint (e.g., "http://localhost:8545").
+   * Set (or replace) the retry policy for a single RPC method.
    */
-  constructor(url: string) {
-    this.url = url;
+  setRetryPolicy(method: string, policy: Partial<RetryPolicy>) {
+    this.retryPolicies[method] = policy;
+  }
+
+  /**
+   * Returns the effective retry policy for an RPC method.
+   */
+  getRetryPolicy(method: string): RetryPolicy {
+    let policy: RetryPolicy = this.retry
+      ? { ...DEFAULT_RETRY_POLICY, ...(typeof this.retry === 'object' ? this.retry : {}) }
+      : { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+    if (NON_IDEMPOTENT_METHODS.includes(method)) {
+      policy.maxAttempts = 1;
+    }
+    if (this.retryPolicies[method]) {
+      policy = { ...policy, ...this.retryPolicies[method] };
+    }
+    return policy;
+  }
+
+  /**
+   * @param urlOrTransport The URL of the JSON-RPC endpoint (e.g., "http://localhost:8545"), which is
+   * shorthand for an `HttpTransport`, or any `Transport` instance (WebSocket, IPC, in-memory, ...).
+   * @param options Optional provider behaviour (retries, timeouts, batching, ...).
+   */
+  constructor(urlOrTransport: string | Transport, options: ProviderOptions<N> = {}) {
+    this.retry = options.retry ?? false;
+    this.retryPolicies = { ...options.retryPolicies };
+    this.timeout = options.timeout;
+    this.legacyFormat = options.legacyFormat ?? false;
+    this.numeric = options.numeric ?? 'number';
+    this.auth = options.auth;
+    this.pollingInterval = options.pollingInterval ?? 4000;
+    if (typeof urlOrTransport === 'string') {
+      this.url = urlOrTransport;
+      this.transport = urlOrTransport ? new HttpTransport(urlOrTransport, options.auth) : undefined;
+    } else {
+      this.transport = urlOrTransport;
+      this.url = urlOrTransport?.url || '';
+    }
+    if (options.rateLimit && this.transport) {
+      this.transport = new RateLimitedTransport(this.transport, options.rateLimit);
+    }
+    if (options.cache) {
+      const cacheOptions = options.cache === true ? {} : options.cache;
+      this.cache = new ResponseCache(
+        { namespace: this.url, ...cacheOptions },
+        async () => (await this.send('eth_blockNumber', [])).result
+      );
+    }
+    if (options.batch && this.transport) {
+      this.batcher = new RequestBatcher(this.transport, options.batch === true ? {} : options.batch);
+    }
   }
 
   /**
    * Performs a raw JSON-RPC request. This is the core private method used by all others.
+   * Failed attempts are retried according to the method's retry policy.
    * @param method The RPC method name.
    * @param params An array of parameters for the RPC method.
+   * @param options Per-call timeout and abort signal.
    * @returns The result from the RPC call.
    * @throws {RpcError} if the RPC call returns a JSON-RPC error object.
-   * @throws {Error} for network or other request-level errors.
+   * @throws {TransportError} for network or other request-level errors (`TimeoutError` when timed out).
+   * @throws {AbortError} if the call was cancelled through its signal.
+   */
+  private async rpc(method: string, params: any[] = [], options: CallOptions = {}): Promise<any> {
+    const response = await this.send(method, params, options);
+    return normalizeResponse(response?.result || response);
+  }
+
+  /**
+   * Like `rpc`, but decodes the raw `result` with `format` (or `normalizeResponse` in legacy mode).
+   */
+  private async rpcFormatted<T>(method: string, params: any[], options: CallOptions | undefined, format: (value: any) => T): Promise<T> {
+    if (this.legacyFormat) {
+      return this.rpc(method, params, options);
+    }
+    const response = await this.send(method, params, options);
+    return format(response?.result);
+  }
+
+  /**
+   * Like `rpc`, for methods whose result is a single quantity: a `bigint` in bigint mode, `normalizeResponse` otherwise.
    */
-  private async rpc(method: string, params: any[] = []): Promise<any> {
-    if (!this.url) {
+  private async rpcQuantity(method: string, params: any[], options: CallOptions | undefined): Promise<any> {
+    if (this.numeric !== 'bigint') {
+      return this.rpc(method, params, options);
+    }
+    const response = await this.send(method, params, options);
+    return hexToBigInt(response?.result);
+  }
+
+  /**
+   * Sends the request with retries (or answers it from the cache) and returns the response envelope
+   * after middleware and error checks.
+   */
+  private async send(method: string, params: any[], options: CallOptions = {}): Promise<any> {
+    if (!this.transport) {
       throw new Error('Provider URL is not set');
     }
+    const callOptions = this.getCallOptions(options);
+    const request = () => withRetry(() => this.execute(method, params, callOptions), this.getRetryPolicy(method), callOptions.signal);
+    if (!this.cache) {
+      return request();
+    }
+    const result = await this.cache.fetch(method, params, async () => (await request())?.result);
+    return { jsonrpc: '2.0', id: null, result };
+  }
+
+  /**
+   * Returns the WebSocket `Subscription` this provider sends requests over, if its transport is a
+   * `WebSocketTransport` (possibly rate limited). Used to follow `newHeads` instead of polling.
+   */
+  getSubscription(): Subscription | undefined {
+    let transport = this.transport;
+    if (transport instanceof RateLimitedTransport) {
+      transport = transport.transport;
+    }
+    return transport instanceof WebSocketTransport ? transport.subscription : undefined;
+  }
+
+  /**
+   * Opens a new WebSocket `Subscription` to this provider's endpoint (the URL with `http` replaced by
+   * `ws`), sending the provider's `auth` with the handshake. Used for contract event streams.
+   */
+  createSubscription(): Subscription {
+    return new Subscription(this.url.replace(/^http/, 'ws'), { auth: this.auth });
+  }
+
+  /**
+   * Empties the response cache, if caching is enabled.
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  private getCallOptions(options: CallOptions = {}): CallOptions {
+    return { timeout: options.timeout ?? this.timeout, signal: options.signal };
+  }
+
+  /**
+   * A single attempt of `send`: builds the payload, runs middleware, and checks the response for errors.
+   */
+  private async execute(method: string, params: any[], options: CallOptions): Promise<any> {
     let payload = { jsonrpc: '2.0', id: this.idCounter++, method, params };
     // Apply request middleware
     for (const mw of this.requestMiddleware) {
       payload = await mw(payload);
     }
     try {
-      const { data } = await axios.post(this.url, payload);
-      let response = data;
+      const request = this.batcher ? this.batcher.enqueue(payload, options) : this.transport!.request(payload, options);
+      let response = await withDeadline(request, options);
       // Apply response middleware
       for (const mw of this.responseMiddleware) {
         response = await mw(response, payload);
@@ -77,10 +294,11 @@ export class Provider {
       if (response?.error) {
         throw new RpcError(response?.error?.message, response?.error?.code, response?.error?.data);
       }
-      return normalizeResponse(response?.result || response);
+      return response;
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(`RPC request failed for method "${method}": ${error.message}`);
+      if (error instanceof TransportError) {
+        // Keep the original error (and its subclass, e.g. TimeoutError) but say which call failed
+        error.message = `RPC request failed for method "${method}": ${error.message}`;
       }
       throw error;
     }
@@ -89,15 +307,16 @@ export class Provider {
   /**
    * Performs a batch of JSON-RPC requests. Returns an array of results/errors in the same order.
    * @param calls Array of { method, params } objects.
+   * @param options Per-call timeout and abort signal for the whole batch.
    * @returns Array of results or errors (in order).
    */
-  async batchRpc(calls: { method: string; params?: any[] }[]): Promise<any[]> {
-    if (!this.url) {
+  async batchRpc(calls: { method: string; params?: any[] }[], options?: CallOptions): Promise<any[]> {
+    if (!this.transport) {
       throw new Error('Provider URL is not set');
     }
-    let payloads = calls.map((call, i) => ({
+    let payloads = calls.map(call => ({
       jsonrpc: '2.0',
-      id: this.idCounter + i,
+      id: this.idCounter++,
       method: call.method,
       params: call.params || []
     }));
@@ -106,7 +325,8 @@ export class Provider {
       payloads = await Promise.all(payloads.map(p => mw(p)));
     }
     try {
-      const { data } = await axios.post(this.url, payloads);
+      const callOptions = this.getCallOptions(options);
+      const data = await withDeadline(this.transport.request(payloads, callOptions), callOptions);
       let results = Array.isArray(data) ? data : [data];
       // Apply response middleware to each result
       for (const mw of this.responseMiddleware) {
@@ -128,89 +348,106 @@ export class Provider {
    * Provides a public way to make any RPC call, for methods not explicitly wrapped.
    * @param method The RPC method name.
    * @param params An array of parameters for the RPC method.
+   * @param options Per-call timeout and abort signal.
    */
-  async callRpc(method: string, params: any[] = []): Promise<any> {
+  async callRpc(method: string, params: any[] = [], options?: CallOptions): Promise<any> {
     // Serialize all params for RPC
     const serializedParams = params.map(p => typeof p === 'object' && p !== null ? serializeForRpc(p) : p);
-    return this.rpc(method, serializedParams);
+    return this.rpc(method, serializedParams, options);
   }
 
   // --- web3 ---
   /**
    * Returns the client version of the node.
    */
-  async clientVersion(): Promise<string> { return this.rpc('web3_clientVersion'); }
+  async clientVersion(options?: CallOptions): Promise<string> { return this.rpc('web3_clientVersion', [], options); }
 
   // --- net ---
   /**
    * Returns the current network ID.
    */
-  async netVersion(): Promise<string> { return this.rpc('net_version'); }
+  async netVersion(options?: CallOptions): Promise<string> { return this.rpc('net_version', [], options); }
   
   /**
    * Returns true if the client is actively listening for network connections.
    */
-  async listening(): Promise<boolean> { return this.rpc('net_listening'); }
+  async listening(options?: CallOptions): Promise<boolean> { return this.rpc('net_listening', [], options); }
 
   /**
    * Returns the number of peers currently connected to the client.
    */
-  async peerCount(): Promise<string> { return this.rpc('net_peerCount'); }
+  async peerCount(options?: CallOptions): Promise<Quantity<N, string>> { return this.rpcQuantity('net_peerCount', [], options); }
 
   // --- eth ---
   /**
    * Returns the current protocol version.
    */
-  async protocolVersion(): Promise<string> { return this.rpc('eth_protocolVersion'); }
+  async protocolVersion(options?: CallOptions): Promise<string> { return this.rpc('eth_protocolVersion', [], options); }
   
   /**
    * Returns an object with data about the sync status or `false` if not syncing.
    */
-  async syncing(): Promise<any> { return this.rpc('eth_syncing'); }
+  async syncing(options?: CallOptions): Promise<any> { return this.rpc('eth_syncing', [], options); }
   
   /**
    * Returns the coinbase address of the client.
    */
-  async coinbase(): Promise<string> { return this.rpc('eth_coinbase'); }
+  async coinbase(options?: CallOptions): Promise<string> { return this.rpc('eth_coinbase', [], options); }
 
   /**
    * Returns the number of hashes per second that the node is mining with.
    */
-  async hashrate(): Promise<string> { return this.rpc('eth_hashrate'); }
+  async hashrate(options?: CallOptions): Promise<Quantity<N, string>> { return this.rpcQuantity('eth_hashrate', [], options); }
 
   /**
    * Returns the current chain ID.
    */
-  async getChainId(): Promise<number> {
-   return await this.rpc('eth_chainId');
+  async getChainId(options?: CallOptions): Promise<Quantity<N>> {
+   return await this.rpcQuantity('eth_chainId', [], options);
   }
 
   /**
    * Returns the current price per gas in wei.
    */
-  async getGasPrice(): Promise<string> { return this.rpc('eth_gasPrice'); }
+  async getGasPrice(options?: CallOptions): Promise<Quantity<N, string>> { return this.rpcQuantity('eth_gasPrice', [], options); }
 
   /**
    * Returns a list of accounts owned by the client.
    */
-  async accounts(): Promise<string[]> { return this.rpc('eth_accounts'); }
+  async accounts(options?: CallOptions): Promise<string[]> { return this.rpc('eth_accounts', [], options); }
 
   /**
    * Returns the number of the most recent block.
    */
-  async getBlockNumber(): Promise<number> { 
-    return await this.rpc('eth_blockNumber');
+  async getBlockNumber(options?: CallOptions): Promise<Quantity<N>> {
+    return await this.rpcQuantity('eth_blockNumber', [], options);
   }
 
   /**
-   * Returns the balance of an account in wei.
+   * Returns the balance of an account. In `'number'` mode this is NEC as a floating-point number for
+   * display; in `'bigint'` mode it is the exact balance in wei, as from `getBalanceWei`.
    * @param address The address to get the balance of.
    * @param tag The block tag (e.g., "latest", "earliest", "pending", or a block number). Defaults to "latest".
+   * @param options Per-call timeout and abort signal.
    */
-  async getBalance(address: string, tag = 'latest'): Promise<number> {
-    const balance = await this.rpc('eth_getBalance', [address, tag]);
+  async getBalance(address: string, tag = 'latest', options?: CallOptions): Promise<Quantity<N, number>> {
+    if (this.numeric === 'bigint') {
+      return this.getBalanceWei(address, tag, options) as Promise<Quantity<N, number>>;
+    }
+    const balance = await this.rpc('eth_getBalance', [address, tag], options);
     const convertedBalance = weiToNec(balance);
-    return isNaN(Number(convertedBalance)) ?  0 : Number(convertedBalance);
+    return (isNaN(Number(convertedBalance)) ?  0 : Number(convertedBalance)) as Quantity<N, number>;
+  }
+
+  /**
+   * Returns the exact balance of an account in wei, regardless of the numeric mode.
+   * @param address The address to get the balance of.
+   * @param tag The block tag. Defaults to "latest".
+   * @param options Per-call timeout and abort signal.
+   */
+  async getBalanceWei(address: string, tag = 'latest', options?: CallOptions): Promise<bigint> {
+    const response = await this.send('eth_getBalance', [address, tag], options);
+    return hexToBigInt(response?.result);
   }
 
   /**
@@ -218,53 +455,61 @@ export class Provider {
    * @param address Address of the storage.
    * @param position Hex of the position in storage.
    * @param tag Block tag. Defaults to "latest".
+   * @param options Per-call timeout and abort signal.
    */
-  async getStorageAt(address: string, position: string, tag = 'latest'): Promise<string> {
-    return this.rpc('eth_getStorageAt', [address, position, tag]);
+  async getStorageAt(address: string, position: string, tag = 'latest', options?: CallOptions): Promise<string> {
+    return this.rpc('eth_getStorageAt', [address, position, tag], options);
   }
 
   /**
    * Returns the number of transactions sent from an address.
    * @param address The address.
    * @param tag The block tag. Defaults to "latest".
+   * @param options Per-call timeout and abort signal.
    */
-  async getTransactionCount(address: string, tag = 'latest'): Promise<number> {
-    return await this.rpc('eth_getTransactionCount', [address, tag]);
+  async getTransactionCount(address: string, tag = 'latest', options?: CallOptions): Promise<Quantity<N>> {
+    return await this.rpcQuantity('eth_getTransactionCount', [address, tag], options);
   }
 
   /**
    * Returns the number of transactions in a block from a block matching the given block number.
    * @param tag The block tag.
+   * @param options Per-call timeout and abort signal.
    */
-  async getBlockTransactionCountByNumber(tag: string): Promise<number> {
-    return await this.rpc('eth_getBlockTransactionCountByNumber', [tag]);
+  async getBlockTransactionCountByNumber(tag: string, options?: CallOptions): Promise<Quantity<N>> {
+    return await this.rpcQuantity('eth_getBlockTransactionCountByNumber', [tag], options);
   }
 
   /**
    * Returns the code at a given address.
    * @param address The address.
    * @param tag The block tag. Defaults to "latest".
+   * @param options Per-call timeout and abort signal.
    */
-  async getCode(address: string, tag = 'latest'): Promise<string> {
-    return this.rpc('eth_getCode', [address, tag]);
+  async getCode(address: string, tag = 'latest', options?: CallOptions): Promise<string> {
+    return this.rpc('eth_getCode', [address, tag], options);
   }
 
   /**
    * Returns a block matching the given block number.
    * @param tag The block tag or number.
    * @param full If true, returns full transaction objects; otherwise, only transaction hashes.
+   * @param options Per-call timeout and abort signal.
+   * @returns The decoded block, or null if it does not exist.
    */
-  async getBlockByNumber(tag: string, full = false): Promise<any> {
-    return this.rpc('eth_getBlockByNumber', [tag, full]);
+  async getBlockByNumber(tag: string, full = false, options?: CallOptions): Promise<Block | null> {
+    return this.rpcFormatted('eth_getBlockByNumber', [tag, full], options, formatBlock);
   }
 
   /**
    * Returns a block matching the given block hash.
    * @param hash The hash of the block.
    * @param full If true, returns full transaction objects; otherwise, only transaction hashes.
+   * @param options Per-call timeout and abort signal.
+   * @returns The decoded block, or null if it does not exist.
    */
-  async getBlockByHash(hash: string, full = false): Promise<any> {
-    return this.rpc('eth_getBlockByHash', [hash, full]);
+  async getBlockByHash(hash: string, full = false, options?: CallOptions): Promise<Block | null> {
+    return this.rpcFormatted('eth_getBlockByHash', [hash, full], options, formatBlock);
   }
   
   /**
@@ -272,112 +517,158 @@ export class Provider {
    * The account must be unlocked on the node.
    * @param address The address to sign with.
    * @param data The data to sign.
+   * @param options Per-call timeout and abort signal.
    */
-  async sign(address: string, data: string): Promise<string> {
-    return this.rpc('eth_sign', [address, data]);
+  async sign(address: string, data: string, options?: CallOptions): Promise<string> {
+    return this.rpc('eth_sign', [address, data], options);
   }
   
   /**
    * Asks the remote node to sign a transaction with an unlocked account.
    * @param txObj The transaction object to sign.
+   * @param options Per-call timeout and abort signal.
    * @returns An object containing the raw signed transaction and the decoded transaction fields.
    */
-  async signTransaction(txObj: any): Promise<{ raw: string; tx: any }> {
+  async signTransaction(txObj: any, options?: CallOptions): Promise<{ raw: string; tx: any }> {
     const rpcParams = serializeForRpc(txObj);
-    return this.rpc('eth_signTransaction', [rpcParams]);
+    return this.rpc('eth_signTransaction', [rpcParams], options);
   }
 
   /**
    * Submits a transaction to be signed and broadcasted by the remote node.
    * The `from` account must be unlocked.
    * @param obj The transaction object.
+   * @param options Per-call timeout and abort signal.
    */
-  async sendTransaction(obj: any): Promise<string> {
+  async sendTransaction(obj: any, options?: CallOptions): Promise<string> {
     const rpcParams = serializeForRpc(obj);
-    return this.rpc('eth_sendTransaction', [rpcParams]);
+    return this.rpc('eth_sendTransaction', [rpcParams], options);
   }
 
   /**
    * Submits a pre-signed transaction to the network.
    * @param signedTx The hex-encoded signed transaction.
+   * @param options Per-call timeout and abort signal.
    * @returns The transaction hash.
    */
-  async sendRawTransaction(signedTx: string): Promise<string> {
-    return this.rpc('eth_sendRawTransaction', [signedTx]);
+  async sendRawTransaction(signedTx: string, options?: CallOptions): Promise<string> {
+    return this.rpc('eth_sendRawTransaction', [signedTx], options);
+  }
+
+  /**
+   * Decodes and validates a raw signed transaction (e.g. from `Wallet.signTransaction` on an offline
+   * machine), then submits it. Malformed or unsigned transactions throw `InvalidTransactionError`
+   * without reaching the node.
+   * @param raw The hex-encoded signed transaction.
+   * @param options Per-call timeout and abort signal.
+   */
+  async broadcast(raw: string, options?: CallOptions): Promise<TransactionResponse> {
+    if (!this.mlkem) {
+      this.mlkem = import('./webassembly/mlkem').then(({ loadWasm }) => loadWasm());
+      this.mlkem.catch(() => { this.mlkem = undefined; });
+    }
+    const decoded = decodeSignedTransaction(await this.mlkem, raw);
+    const hash = await this.sendRawTransaction(raw, options);
+    return new TransactionResponse(hash, this, { nonce: decoded.nonce });
   }
 
   /**
    * Executes a message call immediately without creating a transaction on the block-chain (read-only).
    * @param tx The transaction call object.
    * @param tag The block tag. Defaults to "latest".
+   * @param options Per-call timeout and abort signal.
    */
-  async call(tx: { from?: string; to: string; gas?: string; gasPrice?: string; value?: string; data?: string; }, tag = 'latest'): Promise<string> {
+  async call(tx: { from?: string; to: string; gas?: string; gasPrice?: string; value?: string; data?: string; }, tag = 'latest', options?: CallOptions): Promise<string> {
     const rpcTx = serializeForRpc(tx);
-    return this.rpc('eth_call', [rpcTx, tag]);
+    return this.rpc('eth_call', [rpcTx, tag], options);
   }
 
   /**
    * Estimates the gas necessary to execute a specific transaction.
    * @param obj The transaction object.
+   * @param options Per-call timeout and abort signal.
    */
-  async estimateGas(obj: any): Promise<number> {
+  async estimateGas(obj: any, options?: CallOptions): Promise<Quantity<N>> {
     const rpcObj = serializeForRpc(obj);
-    return await this.rpc('eth_estimateGas', [rpcObj]);
+    return await this.rpcQuantity('eth_estimateGas', [rpcObj], options);
   }
 
   /**
    * Returns a transaction by its hash.
    * @param hash The hash of the transaction.
+   * @param options Per-call timeout and abort signal.
+   * @returns The decoded transaction, or null if it is unknown.
    */
-  async getTransactionByHash(hash: string): Promise<any> {
-    return this.rpc('eth_getTransactionByHash', [hash]);
+  async getTransactionByHash(hash: string, options?: CallOptions): Promise<Transaction | null> {
+    return this.rpcFormatted('eth_getTransactionByHash', [hash], options, formatTransaction);
   }
 
   /**
    * Returns the receipt of a transaction by its hash.
    * @param hash The hash of the transaction.
+   * @param options Per-call timeout and abort signal.
+   * @returns The decoded receipt, or null while the transaction is pending.
+   */
+  async getTransactionReceipt(hash: string, options?: CallOptions): Promise<TransactionReceipt | null> {
+    return this.rpcFormatted('eth_getTransactionReceipt', [hash], options, formatReceipt);
+  }
+
+  /**
+   * Like `getTransactionByHash`, but always returns the typed `Transaction`, even with `legacyFormat`.
+   * Used where the library itself reads the transaction (`TransactionResponse`, `AbstractSigner`).
+   */
+  async getFormattedTransaction(hash: string, options?: CallOptions): Promise<Transaction | null> {
+    return formatTransaction((await this.send('eth_getTransactionByHash', [hash], options))?.result);
+  }
+
+  /**
+   * Like `getTransactionReceipt`, but always returns the typed `TransactionReceipt`, even with `legacyFormat`.
    */
-  async getTransactionReceipt(hash: string): Promise<any> {
-    return this.rpc('eth_getTransactionReceipt', [hash]);
+  async getFormattedReceipt(hash: string, options?: CallOptions): Promise<TransactionReceipt | null> {
+    return formatReceipt((await this.send('eth_getTransactionReceipt', [hash], options))?.result);
   }
 
   /**
    * Returns an array of all logs matching a given filter object.
    * @param filter The filter object.
+   * @param options Per-call timeout and abort signal.
+   * @returns The decoded logs.
    */
-  async getLogs(filter: any): Promise<any[]> {
-    return this.rpc('eth_getLogs', [filter]);
+  async getLogs(filter: any, options?: CallOptions): Promise<Log[]> {
+    return this.rpcFormatted('eth_getLogs', [filter], options, (logs) => (logs || []).map(formatLog));
   }
   
   // --- Mining ---
   /**
    * Used for submitting a proof-of-work solution.
    */
-  async submitWork(nonce: string, powHash: string, mixDigest: string): Promise<any> {
-    return this.rpc('eth_submitWork', [nonce, powHash, mixDigest]);
+  async submitWork(nonce: string, powHash: string, mixDigest: string, options?: CallOptions): Promise<any> {
+    return this.rpc('eth_submitWork', [nonce, powHash, mixDigest], options);
   }
 
   /**
    * Used for obtaining a proof-of-work problem.
    */
-  async getWork(): Promise<any> { return this.rpc('eth_getWork'); }
+  async getWork(options?: CallOptions): Promise<any> { return this.rpc('eth_getWork', [], options); }
 
   // --- personal ---
   /**
    * Creates a new account in the node's keystore.
    * @param password The password to protect the account with.
+   * @param options Per-call timeout and abort signal.
    */
-  async newAccount(password: string): Promise<string> {
-    return this.rpc('personal_newAccount', [password]);
+  async newAccount(password: string, options?: CallOptions): Promise<string> {
+    return this.rpc('personal_newAccount', [password], options);
   }
 
   /**
    * Imports an unencrypted private key into the node's keystore.
    * @param privateKey The raw private key.
    * @param password The password to encrypt the key with.
+   * @param options Per-call timeout and abort signal.
    */
-  async importRawKey(privateKey: string, password: string): Promise<string> {
-    return this.rpc('personal_importRawKey', [privateKey, password]);
+  async importRawKey(privateKey: string, password: string, options?: CallOptions): Promise<string> {
+    return this.rpc('personal_importRawKey', [privateKey, password], options);
   }
 
   /**
@@ -386,18 +677,20 @@ export class Provider {
    * @param data The data to sign.
    * @param address The address to sign with.
    * @param password The password for the account.
+   * @param options Per-call timeout and abort signal.
    */
-  async personalSign(data: string, address: string, password: string): Promise<string> {
-    return this.rpc('personal_sign', [data, address, password]);
+  async personalSign(data: string, address: string, password: string, options?: CallOptions): Promise<string> {
+    return this.rpc('personal_sign', [data, address, password], options);
   }
 
   /**
    * Recovers the address that signed a piece of data.
    * @param data The original data.
    * @param signature The signature.
+   * @param options Per-call timeout and abort signal.
    */
-  async ecRecover(data: string, signature: string): Promise<string> {
-    return this.rpc('personal_ecRecover', [data, signature]);
+  async ecRecover(data: string, signature: string, options?: CallOptions): Promise<string> {
+    return this.rpc('personal_ecRecover', [data, signature], options);
   }
 
   /**
@@ -405,48 +698,52 @@ export class Provider {
    * @param address The address to unlock.
    * @param password The account's password.
    * @param duration The duration in seconds to keep the account unlocked. Defaults to 300.
+   * @param options Per-call timeout and abort signal.
    */
-  async unlockAccount(address: string, password: string, duration?: number): Promise<boolean> {
-    return this.rpc('personal_unlockAccount', [address, password, duration]);
+  async unlockAccount(address: string, password: string, duration?: number, options?: CallOptions): Promise<boolean> {
+    return this.rpc('personal_unlockAccount', [address, password, duration], options);
   }
 
   /**
    * Locks a specified account.
    * @param address The address to lock.
+   * @param options Per-call timeout and abort signal.
    */
-  async lockAccount(address: string): Promise<boolean> {
-    return this.rpc('personal_lockAccount', [address]);
+  async lockAccount(address: string, options?: CallOptions): Promise<boolean> {
+    return this.rpc('personal_lockAccount', [address], options);
   }
 
   /**
    * Sends a transaction from an account in the node's keystore.
    * @param tx The transaction object.
    * @param password The password for the `from` account.
+   * @param options Per-call timeout and abort signal.
    */
-  async sendPersonalTransaction(tx: any, password: string): Promise<string> {
-    return this.rpc('personal_sendTransaction', [tx, password]);
+  async sendPersonalTransaction(tx: any, password: string, options?: CallOptions): Promise<string> {
+    return this.rpc('personal_sendTransaction', [tx, password], options);
   }
 
   /**
    * Resolves an ENS name to an Ethereum address using the ENS registry contract.
    * @param ensName The ENS name to resolve (e.g., 'vitalik.eth').
    * @param registryAddress The ENS registry contract address (optional, defaults to mainnet address).
+   * @param options Per-call timeout and abort signal.
    * @returns The resolved Ethereum address, or null if not found.
    */
-  async resolveEnsName(ensName: string, registryAddress = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e'): Promise<string | null> {
+  async resolveEnsName(ensName: string, registryAddress = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e', options?: CallOptions): Promise<string | null> {
     try {
       const { namehash } = require('ethers');
       const node = namehash(ensName);
       // ENS registry ABI: function resolver(bytes32 node) external view returns (address)
       const data = '0x0178b8bf' + node.replace(/^0x/, ''); // resolver(bytes32) selector + node
       const callObj = { to: registryAddress, data };
-      const resolverAddr = await this.call(callObj);
+      const resolverAddr = await this.call(callObj, 'latest', options);
       if (!resolverAddr || resolverAddr === '0x' || /^0x0+$/.test(resolverAddr)) return null;
       // ENS resolver ABI: function addr(bytes32 node) external view returns (address)
       const addrSelector = '0x3b3b57de';
       const data2 = addrSelector + node.replace(/^0x/, '');
       const callObj2 = { to: resolverAddr, data: data2 };
-      const address = await this.call(callObj2);
+      const address = await this.call(callObj2, 'latest', options);
       if (!address || address === '0x' || /^0x0+$/.test(address)) return null;
       return address;
     } catch (err) {
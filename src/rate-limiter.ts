@@ -0,0 +1,166 @@
+import { AbortError, CallOptions, Transport, TransportError } from './transport';
+
+/**
+ * Client-side throttling for one endpoint. Omitted limits are not enforced.
+ */
+export interface RateLimitOptions {
+  /** Sustained request rate (token bucket refill rate). A batch counts as one request. */
+  requestsPerSecond?: number;
+  /** Bucket capacity, i.e. how many requests may go out at once after a quiet period. Defaults to `requestsPerSecond`. */
+  burst?: number;
+  /** Requests allowed in flight at the same time. */
+  maxConcurrency?: number;
+  /** Times a request answered with HTTP 429 is queued again before the error is thrown. Defaults to 5. */
+  maxRateLimitRetries?: number;
+  /** Upper bound in milliseconds for any `Retry-After` pause. Defaults to 60000. */
+  maxRetryAfter?: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: any) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(headers?: Record<string, any>): number | undefined {
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wraps a transport with a token-bucket rate limiter and a concurrency cap. Requests over the limits
+ * wait in a FIFO queue; HTTP 429 responses pause the whole endpoint (honouring `Retry-After`) and
+ * the request is queued again instead of failing.
+ */
+export class RateLimitedTransport implements Transport {
+  public readonly transport: Transport;
+  private rate: number;
+  private burst: number;
+  private maxConcurrency: number;
+  private maxRateLimitRetries: number;
+  private maxRetryAfter: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(transport: Transport, options: RateLimitOptions = {}) {
+    this.transport = transport;
+    this.rate = options.requestsPerSecond ?? Infinity;
+    this.burst = options.burst ?? (isFinite(this.rate) ? Math.max(1, this.rate) : Infinity);
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.maxRateLimitRetries = options.maxRateLimitRetries ?? 5;
+    this.maxRetryAfter = options.maxRetryAfter ?? 60000;
+    this.tokens = this.burst;
+  }
+
+  get url(): string | undefined {
+    return this.transport.url;
+  }
+
+  /** Requests waiting for a slot. */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  async request(payload: any, options?: CallOptions): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(options?.signal);
+      try {
+        return await this.transport.request(payload, options);
+      } catch (error) {
+        if (!(error instanceof TransportError) || error.status !== 429 || attempt >= this.maxRateLimitRetries) {
+          throw error;
+        }
+        const delay = parseRetryAfter(error.headers) ?? 1000 * Math.pow(2, attempt);
+        this.pause(Math.min(delay, this.maxRetryAfter));
+      } finally {
+        this.release();
+      }
+    }
+  }
+
+  close() {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    return this.transport.close?.();
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(w => w !== waiter);
+          reject(new AbortError());
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  private release() {
+    this.inFlight--;
+    this.pump();
+  }
+
+  private pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private refill(now: number) {
+    if (isFinite(this.rate)) {
+      this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    }
+    this.lastRefill = now;
+  }
+
+  /**
+   * Lets queued requests through while the limits allow, and schedules itself for when the next one may go.
+   */
+  private pump() {
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        return this.wake(this.pausedUntil - now);
+      }
+      if (this.inFlight >= this.maxConcurrency) {
+        return; // release() pumps again
+      }
+      this.refill(now);
+      if (this.tokens < 1) {
+        return this.wake(Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+      }
+      this.tokens -= 1;
+      this.inFlight++;
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) waiter.signal!.removeEventListener('abort', waiter.onAbort);
+      waiter.resolve();
+    }
+  }
+
+  private wake(ms: number) {
+    if (this.timer !== undefined) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pump();
+    }, ms);
+  }
+}
@@ -0,0 +1,164 @@
+import { getAddress, getBytes, hexlify, isAddress, toUtf8Bytes } from 'ethers';
+import { AbstractSigner } from './abstract-signer';
+import { RpcError } from './provider';
+import type { NumericMode, Provider } from './provider';
+import type { PopulateOptions } from './populate';
+import { CallOptions, HttpTransport, InMemoryHandler, Transport, TransportError, withDeadline } from './transport';
+import type { AuthOptions } from './auth';
+import type { BaseWallet, TxParams } from './wallet-core';
+import { SignedTransaction, hashSignedTransaction } from './signed-transaction';
+import { TypedDataDomain, TypedDataTypes, getTypedDataPayload } from './typed-data';
+import { hexToBigInt, serializeForRpc } from './utils';
+
+export interface RemoteSignerOptions {
+  /** Account to sign with. Asked from the service with `signer_getAddress` when omitted. */
+  address?: string;
+  /** Auth headers for an HTTP service URL. */
+  auth?: AuthOptions;
+  /** Default milliseconds to wait for each signing request; none by default. */
+  timeout?: number;
+  /** Options for filling in transactions before they are sent for signing. */
+  populate?: PopulateOptions;
+}
+
+/**
+ * Signs through an external signing service (KMS, HSM, signing proxy) over JSON-RPC, so the key never
+ * enters this process. The service answers:
+ *
+ * - `signer_getAddress` `[]`: the account address
+ * - `signer_signTransaction` `[tx]`: the raw signed transaction as hex; `tx` is fully populated,
+ *   with quantities hex-encoded as for `eth_sendTransaction`
+ * - `signer_signMessage` `[hexMessage, address]`: the signature over `hashMessage(message)`
+ * - `signer_signTypedData` `[address, payloadJson]`: the signature over `hashTypedData(...)`
+ *
+ * Errors are JSON-RPC error responses and are thrown as `RpcError`. See `createSigningService` for
+ * an in-process implementation backed by a `Wallet`.
+ */
+export class RemoteSigner extends AbstractSigner {
+  private readonly transport: Transport;
+  private readonly timeout?: number;
+  private idCounter = 1;
+  private address?: Promise<string>;
+
+  /**
+   * @param provider Provider used to populate and broadcast transactions.
+   * @param service URL of the signing service, or a `Transport` to reach it.
+   * @param options Account, auth, timeout and populate options.
+   */
+  constructor(provider: Provider<NumericMode>, service: string | Transport, options: RemoteSignerOptions = {}) {
+    super(provider, options.populate);
+    this.transport = typeof service === 'string' ? new HttpTransport(service, options.auth) : service;
+    this.timeout = options.timeout;
+    if (options.address) {
+      this.address = Promise.resolve(getAddress(options.address));
+    }
+  }
+
+  private async request(method: string, params: any[], options: CallOptions = {}): Promise<any> {
+    const callOptions = { timeout: options.timeout ?? this.timeout, signal: options.signal };
+    let response: any;
+    try {
+      const payload = { jsonrpc: '2.0', id: this.idCounter++, method, params };
+      response = await withDeadline(this.transport.request(payload, callOptions), callOptions);
+    } catch (error) {
+      if (error instanceof TransportError) {
+        error.message = `Signing service request failed for method "${method}": ${error.message}`;
+      }
+      throw error;
+    }
+    if (response?.error) {
+      throw new RpcError(response.error.message, response.error.code, response.error.data);
+    }
+    return response?.result;
+  }
+
+  async getAddress(options?: CallOptions): Promise<string> {
+    if (!this.address) {
+      this.address = this.request('signer_getAddress', [], options).then((address) => {
+        if (typeof address !== 'string' || !isAddress(address)) {
+          throw new Error('Signing service returned an invalid address: ' + JSON.stringify(address));
+        }
+        return getAddress(address);
+      });
+      this.address.catch(() => { this.address = undefined; });
+    }
+    return this.address;
+  }
+
+  /**
+   * Sends a populated transaction to the service for signing.
+   * @returns The raw signed transaction and its hash, as from `Wallet.signTransaction`.
+   */
+  async signTransaction(tx: TxParams, options?: CallOptions): Promise<SignedTransaction> {
+    const from = await this.getAddress(options);
+    const raw = await this.request('signer_signTransaction', [serializeForRpc({ ...tx, from })], options);
+    if (typeof raw !== 'string' || !/^0x[0-9a-fA-F]+$/.test(raw)) {
+      throw new Error('Signing service returned an invalid transaction: ' + JSON.stringify(raw));
+    }
+    return { raw, hash: hashSignedTransaction(raw) };
+  }
+
+  async signMessage(message: string | Uint8Array, options?: CallOptions): Promise<string> {
+    const from = await this.getAddress(options);
+    const data = hexlify(typeof message === 'string' ? toUtf8Bytes(message) : message);
+    return this.signature(await this.request('signer_signMessage', [data, from], options));
+  }
+
+  async signTypedData(domain: TypedDataDomain, types: TypedDataTypes, value: Record<string, any>, options?: CallOptions): Promise<string> {
+    const from = await this.getAddress(options);
+    const payload = JSON.stringify(getTypedDataPayload(domain, types, value));
+    return this.signature(await this.request('signer_signTypedData', [from, payload], options));
+  }
+
+  private signature(result: any): string {
+    if (typeof result !== 'string') {
+      throw new Error('Signing service returned an invalid signature: ' + JSON.stringify(result));
+    }
+    return result;
+  }
+}
+
+function rpcError(code: number, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Implements the `RemoteSigner` protocol with a local wallet, for tests and local development:
+ * `new RemoteSigner(provider, new InMemoryTransport(createSigningService(wallet)))`.
+ * @param wallet The wallet that signs; requests for other accounts are rejected.
+ */
+export function createSigningService(
+  wallet: Pick<BaseWallet, 'address' | 'signTransaction' | 'signMessage' | 'signTypedData'>
+): InMemoryHandler {
+  const checkAccount = (address: string) => {
+    if (typeof address !== 'string' || address.toLowerCase() !== wallet.address.toLowerCase()) {
+      throw rpcError(4100, `Unknown account ${address}`);
+    }
+  };
+  return async (method, params) => {
+    switch (method) {
+      case 'signer_getAddress':
+        return wallet.address;
+      case 'signer_signTransaction': {
+        const [tx] = params;
+        checkAccount(tx?.from);
+        const nonce = Number(hexToBigInt(tx.nonce));
+        const chainId = Number(hexToBigInt(tx.chainId));
+        return (await wallet.signTransaction({ ...tx, nonce, chainId })).raw;
+      }
+      case 'signer_signMessage': {
+        const [data, address] = params;
+        checkAccount(address);
+        return wallet.signMessage(getBytes(data));
+      }
+      case 'signer_signTypedData': {
+        const [address, payload] = params;
+        checkAccount(address);
+        const { domain, types, message } = JSON.parse(payload);
+        return wallet.signTypedData(domain, types, message);
+      }
+      default:
+        throw rpcError(-32601, `Method ${method} not found`);
+    }
+  };
+}
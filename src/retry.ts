@@ -0,0 +1,104 @@
+import { AbortError, TransportError } from './transport';
+
+/**
+ * Controls how a failed JSON-RPC call is retried.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one. `1` disables retries. */
+  maxAttempts: number;
+  /** Delay before the first retry, in milliseconds. */
+  initialDelay: number;
+  /** Upper bound for any single delay, in milliseconds. */
+  maxDelay: number;
+  /** Multiplier applied to the delay after each failed attempt. */
+  backoffFactor: number;
+  /** Fraction (0-1) of each delay that is randomized to avoid thundering herds. */
+  jitter: number;
+  /** JSON-RPC error codes worth retrying (e.g., -32005 "limit exceeded"). */
+  retryableErrorCodes: number[];
+  /** HTTP statuses worth retrying. */
+  retryableHttpStatuses: number[];
+  /** Whether to retry errors that carry no status at all (connection refused, reset, DNS...). */
+  retryOnNetworkError: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 250,
+  maxDelay: 5000,
+  backoffFactor: 2,
+  jitter: 0.2,
+  retryableErrorCodes: [-32002, -32005, -32603],
+  retryableHttpStatuses: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+/**
+ * Methods with side effects on the node. A request that timed out may still have been applied,
+ * so retrying could double-broadcast a transaction; they default to a single attempt.
+ */
+export const NON_IDEMPOTENT_METHODS = [
+  'eth_sendRawTransaction',
+  'eth_sendTransaction',
+  'eth_submitWork',
+  'personal_sendTransaction',
+  'personal_newAccount',
+  'personal_importRawKey',
+];
+
+/**
+ * Decides whether an error thrown by an attempt may be retried under the given policy.
+ */
+export function isRetryableError(error: any, policy: RetryPolicy): boolean {
+  if (error instanceof TransportError) {
+    if (error.status === undefined) return policy.retryOnNetworkError;
+    return policy.retryableHttpStatuses.includes(error.status);
+  }
+  if (typeof error?.code === 'number') {
+    return policy.retryableErrorCodes.includes(error.code);
+  }
+  return false;
+}
+
+/**
+ * Computes the backoff delay before retry number `attempt` (1-based), with jitter applied.
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const base = Math.min(policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1), policy.maxDelay);
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
+
+/**
+ * Runs `fn` until it succeeds, the error is not retryable, or the policy's attempts are exhausted.
+ * The last error is rethrown unchanged. Aborting `signal` stops further attempts, including during backoff.
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, policy: RetryPolicy, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error, policy) || signal?.aborted) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt, policy), signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,90 @@
+import { getBytes, keccak256, toUtf8String } from 'ethers';
+
+/**
+ * A transaction signed offline: the raw ML-DSA-87 signed RLP, ready for `Provider.broadcast`.
+ */
+export interface SignedTransaction {
+  raw: string;
+  /** keccak256 of `raw`, i.e. the hash the node reports for the transaction. */
+  hash: string;
+}
+
+/**
+ * Fields of a raw signed transaction, as decoded by `decodeRLPTransaction`.
+ */
+export interface DecodedTransaction {
+  nonce: bigint;
+  gasPrice: bigint;
+  gasLimit: bigint;
+  /** Null for contract creation. */
+  to: string | null;
+  value: bigint;
+  data: string;
+  signature: string;
+  publicKey: string;
+}
+
+/**
+ * Thrown when a raw transaction cannot be decoded or is missing required parts.
+ */
+export class InvalidTransactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTransactionError';
+  }
+}
+
+const FIELD_COUNT = 8;
+
+function quantity(field: string): bigint {
+  return field ? BigInt('0x' + field) : BigInt(0);
+}
+
+/**
+ * Returns the hash of a raw signed transaction.
+ */
+export function hashSignedTransaction(raw: string): string {
+  return keccak256(raw.startsWith('0x') ? raw : '0x' + raw);
+}
+
+/**
+ * Decodes and validates a raw signed transaction.
+ * @param mlkem Loaded WASM module providing `decodeRLPTransaction`.
+ * @param raw Hex-encoded signed transaction.
+ */
+export function decodeSignedTransaction(mlkem: { decodeRLPTransaction(txHex: string): any }, raw: string): DecodedTransaction {
+  if (typeof raw !== 'string' || !/^(0x)?[0-9a-fA-F]+$/.test(raw)) {
+    throw new InvalidTransactionError('Raw transaction must be a hex string');
+  }
+  let decoded: any;
+  try {
+    decoded = mlkem.decodeRLPTransaction(raw);
+  } catch (err: any) {
+    throw new InvalidTransactionError(`Could not decode raw transaction: ${err?.message || err}`);
+  }
+  const fields: string[] | undefined = decoded?.fields;
+  if (!Array.isArray(fields) || fields.length !== FIELD_COUNT) {
+    throw new InvalidTransactionError(`Raw transaction must have ${FIELD_COUNT} RLP fields, got ${fields?.length ?? 0}`);
+  }
+  const [nonce, gasPrice, gasLimit, to, value, data, signature, publicKey] = fields;
+  if (to && !/^[0-9a-fA-F]{40}$/.test(to)) {
+    throw new InvalidTransactionError(`Invalid recipient address 0x${to}`);
+  }
+  if (!gasLimit) {
+    throw new InvalidTransactionError('Raw transaction has no gas limit');
+  }
+  if (!signature || !publicKey) {
+    throw new InvalidTransactionError('Raw transaction is not signed');
+  }
+  return {
+    nonce: quantity(nonce),
+    gasPrice: quantity(gasPrice),
+    gasLimit: quantity(gasLimit),
+    to: to ? '0x' + to.toLowerCase() : null,
+    value: quantity(value),
+    data: '0x' + data,
+    signature: '0x' + signature,
+    // The public key is carried as the ASCII bytes of its hex encoding
+    publicKey: '0x' + toUtf8String(getBytes('0x' + publicKey)),
+  };
+}
@@ -1,5 +1,8 @@
 // --- Subscription class for WebSocket event subscriptions ---
 
+import { AuthOptions, resolveHeaders } from './auth';
+import { CallOptions, withDeadline } from './transport';
+
 // Type for event handlers
 export interface EventHandler {
   (data: any): void;
@@ -17,15 +20,21 @@ const isReactNative = typeof navigator !== 'undefined' && navigator.product ===
 
 export class Subscription {
   private ws: any; // WebSocket (browser) or ws (Node.js)
-  private url: string;
+  public readonly url: string;
   private eventHandlers: Map<string, Set<EventHandler>> = new Map();
   private subscriptionHandlers: Map<string, SubscriptionHandler> = new Map();
   private isConnected: boolean = false;
   private idCounter: number = 1;
-  private pendingRequests: Map<number, { resolve: Function; reject: Function } > = new Map();
+  private pendingRequests: Map<number, { resolve: Function; reject: Function; raw?: boolean } > = new Map();
+  private auth?: AuthOptions;
 
-  constructor(url: string) {
+  /**
+   * @param url The WebSocket URL (e.g., "ws://localhost:8546").
+   * @param options `auth` headers are sent with the handshake in Node.js and React Native; browsers cannot set them.
+   */
+  constructor(url: string, options: { auth?: AuthOptions } = {}) {
     this.url = url;
+    this.auth = options.auth;
   }
 
   connect(): Promise<void> {
@@ -36,12 +45,17 @@ export class Subscription {
       }
   
       try {
+        const headers = this.auth ? await resolveHeaders(this.auth) : undefined;
         if (isNode) {
           const { WebSocket } = await import('ws'); // dynamically import
-          this.ws = new WebSocket(this.url);
+          this.ws = headers ? new WebSocket(this.url, { headers }) : new WebSocket(this.url);
         } else if (isReactNative) {
-          this.ws = new WebSocket(this.url); // built-in global
+          // React Native's WebSocket takes headers as a non-standard third argument
+          this.ws = headers ? new (WebSocket as any)(this.url, undefined, { headers }) : new WebSocket(this.url); // built-in global
         } else if (isBrowser) {
+          if (headers && Object.keys(headers).length > 0) {
+            console.warn('Browsers do not allow custom WebSocket headers; pass credentials in the URL instead');
+          }
           this.ws = new window.WebSocket(this.url);
         } else {
           reject(new Error('Unsupported environment for WebSocket'));
@@ -55,6 +69,7 @@ export class Subscription {
         };
         this.ws.onclose = (event: any) => {
           this.isConnected = false;
+          this.rejectPending(new Error('WebSocket connection closed'));
           this.emit('close', event);
         };
         this.ws.onerror = (event: any) => {
@@ -69,9 +84,10 @@ export class Subscription {
           try {
             const msg = JSON.parse(data);
             if (msg.id && this.pendingRequests.has(msg.id)) {
-              const { resolve, reject } = this.pendingRequests.get(msg.id)!;
+              const { resolve, reject, raw } = this.pendingRequests.get(msg.id)!;
               this.pendingRequests.delete(msg.id);
-              if (msg.error) reject(msg.error);
+              if (raw) resolve(msg);
+              else if (msg.error) reject(msg.error);
               else resolve(msg.result);
             } else if (msg.method === 'eth_subscription' && msg.params) {
               const subId = msg.params.subscription;
@@ -95,7 +111,15 @@ export class Subscription {
       this.ws.close();
       this.ws = null;
       this.isConnected = false;
+      this.rejectPending(new Error('WebSocket connection closed'));
+    }
+  }
+
+  private rejectPending(error: Error) {
+    for (const { reject } of this.pendingRequests.values()) {
+      reject(error);
     }
+    this.pendingRequests.clear();
   }
 
   on(event: string, handler: EventHandler) {
@@ -132,6 +156,35 @@ export class Subscription {
     });
   }
 
+  /**
+   * Sends raw JSON-RPC payload(s) and resolves with the full response envelope(s), errors included.
+   * Ids are remapped onto this connection's counter so they never collide with subscription traffic,
+   * and restored on the way back. A call that times out or is aborted is forgotten, so a late response
+   * for it is dropped.
+   */
+  async request(payload: any, options?: CallOptions): Promise<any> {
+    if (Array.isArray(payload)) {
+      return Promise.all(payload.map(p => this.request(p, options)));
+    }
+    if (!this.isConnected) {
+      throw new Error('WebSocket is not connected');
+    }
+    const id = this.idCounter++;
+    const response = new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, {
+        resolve: (msg: any) => resolve({ ...msg, id: payload.id }),
+        reject,
+        raw: true,
+      });
+      this.ws.send(JSON.stringify({ ...payload, id }));
+    });
+    try {
+      return await withDeadline(response, options);
+    } finally {
+      this.pendingRequests.delete(id);
+    }
+  }
+
   async subscribe(subType: string, params: any[] = [], handler: SubscriptionHandler): Promise<string> {
     const subId = await this.sendRpc('eth_subscribe', [subType, ...params]);
     this.subscriptionHandlers.set(subId, handler);
@@ -0,0 +1,182 @@
+import type { NumericMode, Provider } from './provider';
+import type { TransactionReceipt } from './formatter';
+import { TimeoutError } from './transport';
+
+/**
+ * Thrown by `wait()` when the transaction was mined but reverted (`status` 0).
+ */
+export class TransactionRevertedError extends Error {
+  public readonly receipt: TransactionReceipt;
+
+  constructor(receipt: TransactionReceipt) {
+    super(`Transaction ${receipt.transactionHash} reverted in block ${receipt.blockNumber}`);
+    this.name = 'TransactionRevertedError';
+    this.receipt = receipt;
+  }
+}
+
+/**
+ * Thrown by `wait()` when another transaction from the same sender was mined with this nonce.
+ */
+export class TransactionReplacedError extends Error {
+  public readonly hash: string;
+  public readonly nonce: bigint;
+
+  constructor(hash: string, nonce: bigint) {
+    super(`Transaction ${hash} was replaced by another transaction with nonce ${nonce}`);
+    this.name = 'TransactionReplacedError';
+    this.hash = hash;
+    this.nonce = nonce;
+  }
+}
+
+/**
+ * Thrown by `wait()` when a transaction the node knew about disappears without being mined.
+ */
+export class TransactionDroppedError extends Error {
+  public readonly hash: string;
+
+  constructor(hash: string) {
+    super(`Transaction ${hash} was dropped from the mempool`);
+    this.name = 'TransactionDroppedError';
+    this.hash = hash;
+  }
+}
+
+/**
+ * A sent transaction. `wait()` follows it until it is mined with the requested confirmations.
+ */
+export class TransactionResponse {
+  public readonly hash: string;
+  public readonly provider: Provider<NumericMode>;
+  public from?: string;
+  public nonce?: bigint;
+  /**
+   * Earlier transactions with the same nonce that this one replaces (see `speedUp` and `cancel`).
+   * `wait()` resolves with the receipt of whichever of them, or this one, is mined.
+   */
+  public readonly replaces: string[];
+  private seen = false;
+
+  /**
+   * @param hash Transaction hash returned by the node.
+   * @param provider Provider used to follow the transaction.
+   * @param details Sender and nonce, when known, so a replacement can be told apart from a drop, and
+   *   the hashes this transaction replaces.
+   */
+  constructor(hash: string, provider: Provider<NumericMode>, details: { from?: string; nonce?: bigint; replaces?: string[] } = {}) {
+    this.hash = hash;
+    this.provider = provider;
+    this.from = details.from;
+    this.nonce = details.nonce;
+    this.replaces = details.replaces || [];
+  }
+
+  /**
+   * Waits until the transaction (or one it replaces) is mined and `confirmations` blocks deep; check
+   * `receipt.transactionHash` to see which. Follows `newHeads` when the
+   * provider is connected over WebSocket and polls every `provider.pollingInterval` ms otherwise.
+   * @param confirmations Blocks required, counting the one containing the transaction. Defaults to 1.
+   * @param timeout Milliseconds before rejecting with `TimeoutError`. Waits indefinitely if omitted.
+   */
+  async wait(confirmations = 1, timeout?: number): Promise<TransactionReceipt> {
+    const receipt = await this.check(confirmations);
+    if (receipt) return receipt;
+
+    return new Promise<TransactionReceipt>((resolve, reject) => {
+      let done = false;
+      let busy = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let interval: ReturnType<typeof setInterval> | undefined;
+      let subId: string | undefined;
+      const subscription = this.provider.getSubscription();
+
+      const finish = (error: any, result?: TransactionReceipt) => {
+        if (done) return;
+        done = true;
+        if (timer !== undefined) clearTimeout(timer);
+        if (interval !== undefined) clearInterval(interval);
+        if (subscription && subId) subscription.unsubscribe(subId).catch(() => undefined);
+        error ? reject(error) : resolve(result!);
+      };
+
+      const poll = async () => {
+        if (done || busy) return;
+        busy = true;
+        try {
+          const result = await this.check(confirmations);
+          if (result) finish(null, result);
+        } catch (error) {
+          finish(error);
+        } finally {
+          busy = false;
+        }
+      };
+
+      if (subscription) {
+        subscription.connect()
+          .then(() => subscription.subscribe('newHeads', [], () => { poll(); }))
+          .then(id => {
+            subId = id;
+            if (done) subscription.unsubscribe(id).catch(() => undefined);
+          })
+          .catch(error => finish(error));
+      } else {
+        interval = setInterval(poll, this.provider.pollingInterval);
+      }
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          const error = new TimeoutError(timeout);
+          error.message = `Transaction ${this.hash} was not confirmed within ${timeout}ms`;
+          finish(error);
+        }, timeout);
+      }
+    });
+  }
+
+  /**
+   * Looks the transaction up once. Resolves with the receipt when it is final, null while pending.
+   */
+  private async check(confirmations: number): Promise<TransactionReceipt | null> {
+    const receipt = await this.findReceipt();
+    if (receipt) {
+      if (confirmations > 1) {
+        const head = BigInt(await this.provider.getBlockNumber());
+        if (head - BigInt(receipt.blockNumber) + BigInt(1) < BigInt(confirmations)) return null;
+      }
+      if (Number(receipt.status) === 0) {
+        throw new TransactionRevertedError(receipt);
+      }
+      return receipt;
+    }
+
+    const tx = await this.provider.getFormattedTransaction(this.hash);
+    if (tx) {
+      this.seen = true;
+      this.from = this.from ?? tx.from;
+      this.nonce = this.nonce ?? (tx.nonce !== undefined ? BigInt(tx.nonce) : undefined);
+      return null;
+    }
+    if (this.from && this.nonce !== undefined) {
+      const mined = BigInt(await this.provider.getTransactionCount(this.from, 'latest'));
+      if (mined > this.nonce) {
+        // The nonce is used up; make sure it was not this transaction that got mined in between.
+        if (await this.findReceipt()) return this.check(confirmations);
+        throw new TransactionReplacedError(this.hash, this.nonce);
+      }
+    }
+    if (this.seen) {
+      throw new TransactionDroppedError(this.hash);
+    }
+    return null;
+  }
+
+  private async findReceipt(): Promise<TransactionReceipt | null> {
+    for (const hash of [this.hash, ...this.replaces]) {
+      const receipt = await this.provider.getFormattedReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+}
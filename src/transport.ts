@@ -0,0 +1,237 @@
+import axios, { AxiosError } from 'axios';
+import { Subscription } from './subscription';
+import { AuthOptions, resolveHeaders } from './auth';
+
+/**
+ * A transport carries JSON-RPC payloads to a node and returns the raw response envelope(s).
+ * `Provider` is transport-agnostic: it builds payloads, runs middleware and parses errors,
+ * while the transport only moves bytes.
+ */
+export interface Transport {
+  /**
+   * The endpoint this transport talks to, if it has one (used e.g. to derive WebSocket URLs).
+   */
+  readonly url?: string;
+
+  /**
+   * Sends a single JSON-RPC payload or a batch (array) of payloads.
+   * @param options Timeout and abort signal; transports that can cancel the underlying request should honour them.
+   * @returns The response envelope, or an array of envelopes for a batch.
+   */
+  request(payload: any, options?: CallOptions): Promise<any>;
+
+  /**
+   * Releases any underlying connection.
+   */
+  close?(): Promise<void> | void;
+}
+
+/**
+ * Per-call options accepted by every `Provider` RPC method.
+ */
+export interface CallOptions {
+  /** Milliseconds to wait for each attempt before failing with a `TimeoutError`. */
+  timeout?: number;
+  /** Cancels the call (including pending retries) with an `AbortError` when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Represents a failure to deliver a request or receive a response (network error, bad HTTP status, closed socket).
+ */
+export class TransportError extends Error {
+  public readonly status?: number;
+  public readonly headers?: Record<string, any>;
+
+  constructor(message: string, status?: number, headers?: Record<string, any>) {
+    super(message);
+    this.name = 'TransportError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Thrown when a request attempt does not complete within its timeout. Carries no HTTP status,
+ * so the default retry policy treats it like any other network error.
+ */
+export class TimeoutError extends TransportError {
+  public readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when a call is cancelled through its `AbortSignal`. Never retried.
+ */
+export class AbortError extends Error {
+  constructor(message = 'Request aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Races `promise` against the timeout and abort signal in `options`. The underlying work is not
+ * cancelled; transports that support cancellation should also be handed the same options.
+ */
+export function withDeadline<T>(promise: Promise<T>, options: CallOptions = {}): Promise<T> {
+  const { timeout, signal } = options;
+  if (!timeout && !signal) {
+    return promise;
+  }
+  if (signal?.aborted) {
+    return Promise.reject(new AbortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      cleanup();
+      reject(new AbortError());
+    };
+    const timer = timeout
+      ? setTimeout(() => {
+        cleanup();
+        reject(new TimeoutError(timeout));
+      }, timeout)
+      : undefined;
+    const cleanup = () => {
+      if (timer !== undefined) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    signal?.addEventListener('abort', onAbort);
+    promise.then(
+      (value) => { cleanup(); resolve(value); },
+      (error) => { cleanup(); reject(error); }
+    );
+  });
+}
+
+/**
+ * Sends JSON-RPC requests as HTTP POSTs.
+ */
+export class HttpTransport implements Transport {
+  public readonly url: string;
+  private auth?: AuthOptions;
+
+  /**
+   * @param url The URL of the JSON-RPC endpoint (e.g., "http://localhost:8545").
+   * @param auth Headers and credentials sent with every request.
+   */
+  constructor(url: string, auth?: AuthOptions) {
+    this.url = url;
+    this.auth = auth;
+  }
+
+  async request(payload: any, options: CallOptions = {}): Promise<any> {
+    try {
+      const config: Record<string, any> = { timeout: options.timeout, signal: options.signal };
+      if (this.auth) {
+        config.headers = await resolveHeaders(this.auth);
+      }
+      const { data } = await axios.post(this.url, payload, config);
+      return data;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new AbortError();
+      }
+      if (error instanceof AxiosError) {
+        if (error.code === AxiosError.ECONNABORTED && options.timeout) {
+          throw new TimeoutError(options.timeout);
+        }
+        throw new TransportError(error.message, error.response?.status, error.response?.headers as Record<string, any>);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Sends JSON-RPC requests over a WebSocket. Pass an existing `Subscription` to share
+ * its connection with event subscriptions, or a URL to open a dedicated one.
+ */
+export class WebSocketTransport implements Transport {
+  public readonly subscription: Subscription;
+  private connecting?: Promise<void>;
+
+  /**
+   * @param urlOrSubscription A WebSocket URL (e.g., "ws://localhost:8546") or a `Subscription` instance.
+   * @param auth Headers and credentials for the connection when a URL is given.
+   */
+  constructor(urlOrSubscription: string | Subscription, auth?: AuthOptions) {
+    this.subscription = typeof urlOrSubscription === 'string'
+      ? new Subscription(urlOrSubscription, { auth })
+      : urlOrSubscription;
+    this.subscription.on('close', () => { this.connecting = undefined; });
+  }
+
+  get url(): string {
+    return this.subscription.url;
+  }
+
+  async request(payload: any, options?: CallOptions): Promise<any> {
+    await withDeadline(this.ensureConnected(), options);
+    try {
+      return await this.subscription.request(payload, options);
+    } catch (error: any) {
+      if (error instanceof TimeoutError || error instanceof AbortError) {
+        throw error;
+      }
+      throw new TransportError(error?.message || String(error));
+    }
+  }
+
+  close() {
+    this.connecting = undefined;
+    this.subscription.disconnect();
+  }
+
+  private ensureConnected(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.subscription.connect().catch((err) => {
+        this.connecting = undefined;
+        throw new TransportError(`WebSocket connection to ${this.url} failed: ${err?.message || err}`);
+      });
+    }
+    return this.connecting;
+  }
+}
+
+/**
+ * Handler used by `InMemoryTransport`. Returns the `result` for a call; throwing an error
+ * with a numeric `code` produces a JSON-RPC error response instead.
+ */
+export type InMemoryHandler = (method: string, params: any[]) => any | Promise<any>;
+
+/**
+ * Answers JSON-RPC requests in-process. Useful as a stand-in node in tests and for local tooling.
+ */
+export class InMemoryTransport implements Transport {
+  public readonly url?: string;
+  private handler: InMemoryHandler;
+
+  constructor(handler: InMemoryHandler, url?: string) {
+    this.handler = handler;
+    this.url = url;
+  }
+
+  async request(payload: any): Promise<any> {
+    if (Array.isArray(payload)) {
+      return Promise.all(payload.map(p => this.handle(p)));
+    }
+    return this.handle(payload);
+  }
+
+  private async handle(payload: any): Promise<any> {
+    try {
+      const result = await this.handler(payload.method, payload.params || []);
+      return { jsonrpc: '2.0', id: payload.id, result };
+    } catch (error: any) {
+      const code = typeof error?.code === 'number' ? error.code : -32603;
+      return { jsonrpc: '2.0', id: payload.id, error: { code, message: error?.message || String(error), data: error?.data } };
+    }
+  }
+}
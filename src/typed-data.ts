@@ -0,0 +1,62 @@
+import { TypedDataDomain, TypedDataEncoder, TypedDataField } from 'ethers';
+import { verifyDigest } from './message';
+
+export type { TypedDataDomain, TypedDataField };
+
+/**
+ * Field types for each struct, keyed by struct name. An `EIP712Domain` entry is ignored; it is
+ * derived from the domain.
+ */
+export type TypedDataTypes = Record<string, TypedDataField[]>;
+
+function withoutDomain(types: TypedDataTypes): TypedDataTypes {
+  const { EIP712Domain, ...rest } = types;
+  return rest;
+}
+
+/**
+ * Returns the domain separator, i.e. the EIP-712 struct hash of `domain`.
+ */
+export function hashDomain(domain: TypedDataDomain): string {
+  return TypedDataEncoder.hashDomain(domain);
+}
+
+/**
+ * Returns the EIP-712 struct hash of `value`, without the domain.
+ * @param primaryType Name of the struct in `types` that `value` is an instance of.
+ */
+export function hashStruct(primaryType: string, types: TypedDataTypes, value: Record<string, any>): string {
+  return TypedDataEncoder.hashStruct(primaryType, withoutDomain(types), value);
+}
+
+/**
+ * Returns the digest that `signTypedData` signs: `keccak256("\x19\x01" || domainSeparator || hashStruct(value))`.
+ * Contracts recompute it the same way as for EIP-712.
+ */
+export function hashTypedData(domain: TypedDataDomain, types: TypedDataTypes, value: Record<string, any>): string {
+  return TypedDataEncoder.hash(domain, withoutDomain(types), value);
+}
+
+/**
+ * Returns the JSON-serialisable typed-data payload (`types`, `domain`, `primaryType`, `message`), as
+ * sent to extension wallets.
+ */
+export function getTypedDataPayload(domain: TypedDataDomain, types: TypedDataTypes, value: Record<string, any>): any {
+  return TypedDataEncoder.getPayload(domain, withoutDomain(types), value);
+}
+
+/**
+ * Verifies an ML-DSA-87 signature produced by `signTypedData`.
+ * @param signature The signature (with the embedded public key when checking against an address).
+ * @param publicKeyOrAddress The expected signer, as a public key or an address.
+ * @returns True if the signature is valid for that signer.
+ */
+export function verifyTypedData(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, any>,
+  signature: string,
+  publicKeyOrAddress: string
+): boolean {
+  return verifyDigest(hashTypedData(domain, types, value), signature, publicKeyOrAddress);
+}
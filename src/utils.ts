@@ -1,4 +1,5 @@
 // src/utils.ts
+import { Amount } from './amount';
 
 // Generic base for decimal handling
 const TEN = BigInt(10);
@@ -11,6 +12,7 @@ export const WEI_FACTOR = TEN ** BigInt(DEFAULT_DECIMALS);
 
 /**
  * Convert a hex string to a decimal (string or number).
+ * Values above `Number.MAX_SAFE_INTEGER` are returned as decimal strings so they are never rounded.
  * Assumes input is already in base units.
  */
 export function hexToDecimalString(hex: string): string | number {
@@ -24,7 +26,27 @@ export function hexToDecimalString(hex: string): string | number {
     throw new Error(`hexToDecimalString: invalid hex string "${hex}"`);
   }
   const asDec = BigInt(normalized).toString(10);
-  return isNaN(Number(asDec)) ? asDec : Number(asDec);
+  return Number.isSafeInteger(Number(asDec)) ? Number(asDec) : asDec;
+}
+
+/**
+ * Convert a hex quantity (or a decimal string, number or bigint) to a bigint without going through `Number`.
+ * `'0x'` is treated as zero.
+ */
+export function hexToBigInt(value: string | number | bigint): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`hexToBigInt: ${value} is not a safe integer`);
+    }
+    return BigInt(value);
+  }
+  const raw = value.trim().toLowerCase();
+  if (raw === '0x') return BigInt(0);
+  if (!/^0x[0-9a-f]+$/.test(raw) && !/^[0-9]+$/.test(raw)) {
+    throw new Error(`hexToBigInt: invalid quantity "${value}"`);
+  }
+  return BigInt(raw);
 }
 
 /**
@@ -148,23 +170,19 @@ export function weiToNec(
 
 /**
  * Walk and serialize all fields in TxParams for JSON-RPC.
+ * `value`, fields whose name contains `amount` or `balance`, and tagged amounts (`Amount`, `{ wei }`,
+ * `{ nec }`) are encoded as wei via `Amount.from`, which rejects ambiguous plain numbers and decimal
+ * strings; other numeric fields are encoded as-is.
  */
 export function serializeForRpc(
   payload: Record<string, any>
 ): Record<string, any> {
   const out: Record<string, any> = {};
   for (const [key, val] of Object.entries(payload)) {
-    if (typeof val === 'number' || (/^[0-9]+$/.test(val as string))) {
-      if (key === 'value') {
-        out[key] = etherToWeiHex(val);
-      } else if (
-        key.toLowerCase().includes('amount') ||
-        key.toLowerCase().includes('balance')
-      ) {
-        out[key] = parseUnits(val);
-      } else {
-        out[key] = decimalToHex(val);
-      }
+    if (val !== undefined && val !== null && (isAmountKey(key) || isTaggedAmount(val))) {
+      out[key] = Amount.from(val).toHex();
+    } else if (typeof val === 'number' || (/^[0-9]+$/.test(val as string))) {
+      out[key] = decimalToHex(val);
     } else {
       out[key] = val;
     }
@@ -172,6 +190,14 @@ export function serializeForRpc(
   return out;
 }
 
+function isAmountKey(key: string): boolean {
+  return key === 'value' || /amount|balance/i.test(key);
+}
+
+function isTaggedAmount(val: any): boolean {
+  return val instanceof Amount || (typeof val === 'object' && ('wei' in val || 'nec' in val));
+}
+
 /**
  * Walk and normalize JSON-RPC response (hex → decimal string or number).
  */
@@ -0,0 +1,305 @@
+// src/wallet-core.ts
+import { ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import { getBytes, hexlify, randomBytes } from 'ethers';
+import type { NumericMode, Provider } from './provider';
+import { AbstractSigner } from './abstract-signer';
+import type { PopulateOptions } from './populate';
+import { Amount, AmountLike } from './amount';
+import { SignedTransaction, hashSignedTransaction } from './signed-transaction';
+import { derivePublicKey, hashMessage, signDigest } from './message';
+import { TypedDataDomain, TypedDataTypes, hashTypedData } from './typed-data';
+import { DEFAULT_PATH, HDNode } from './hdnode';
+import { EncryptOptions, KeystoreJson, ProgressCallback, decryptKeystore, encryptKeystore } from './keystore';
+
+/**
+ * Parameters of a transaction to sign or send; shared by every signer.
+ */
+export interface TxParams {
+  from: string;
+  nonce: any;
+  gasPrice: string;
+  gasLimit?: string;
+  gas?: string;
+  to: string;
+  value: AmountLike;
+  data?: string;
+  chainId?: number;
+}
+
+/**
+ * The WASM operations a wallet needs. The Node and browser bundles each inject their own loader,
+ * so everything else in the wallet is shared.
+ */
+export interface CryptoBackend {
+  symEncrypt(ssKey: string, message: string): Promise<{ encryptedData: string; version: string }>;
+  symDecrypt(ssKey: string, encryptedData: string, version: string): Promise<string>;
+  privateKeyToAddress(privateKey: string): string;
+  signTransactionMLDSA87: (TxObject: any, privateKeyHex: string) => any;
+  decodeRLPTransaction: (txHex: string) => any;
+}
+
+type WalletClass<T extends BaseWallet> = {
+  new (backend: CryptoBackend, privateKey: string, publicKey?: string): T;
+  loadBackend(): Promise<CryptoBackend>;
+};
+
+// Key bytes are kept off the instances, so serialisers and consoles cannot reach them
+const secretKeys = new WeakMap<BaseWallet, Uint8Array>();
+const inspect: unique symbol = Symbol.for('nodejs.util.inspect.custom');
+
+/**
+ * ML-DSA-87 wallet, independent of the environment. Use `Wallet` from the package entry point, which
+ * supplies the WASM backend for Node or the browser; subclasses only override `loadBackend`.
+ */
+export class BaseWallet {
+  private readonly mlkem: CryptoBackend;
+  public readonly address: string;
+  private cachedPublicKey?: string;
+
+  protected constructor(mlkem: CryptoBackend, privateKey: string, publicKey?: string) {
+    if (typeof privateKey !== 'string' || !/^(0x)?([0-9a-fA-F]{2})+$/.test(privateKey)) {
+      throw new Error('Private key must be a hex string');
+    }
+    this.mlkem = mlkem;
+    secretKeys.set(this, getBytes(privateKey.startsWith('0x') ? privateKey : '0x' + privateKey));
+    this.address = this.mlkem.privateKeyToAddress(this.privateKeyHex());
+    this.cachedPublicKey = publicKey;
+  }
+
+  private privateKeyHex(): string {
+    const secretKey = secretKeys.get(this);
+    if (!secretKey) {
+      throw new Error('Wallet has been disposed');
+    }
+    return hexlify(secretKey).slice(2);
+  }
+
+  /**
+   * The ML-DSA-87 public key as hex; share it so others can verify this wallet's signatures.
+   */
+  get publicKey(): string {
+    if (!this.cachedPublicKey) {
+      this.cachedPublicKey = derivePublicKey(this.mlkem, this.privateKeyHex());
+    }
+    return this.cachedPublicKey;
+  }
+
+  /**
+   * Returns the private key as hex (no `0x`), e.g. for a backup; prefer `encrypt` for storage.
+   * @throws Error once the wallet has been disposed.
+   */
+  exportPrivateKey(): string {
+    return this.privateKeyHex();
+  }
+
+  /**
+   * Zeroes the private key buffer. Signing, encrypting or exporting afterwards throws.
+   */
+  dispose(): void {
+    secretKeys.get(this)?.fill(0);
+    secretKeys.delete(this);
+  }
+
+  /**
+   * Decodes a raw signed transaction with the WASM module; see `Signer.decode`.
+   */
+  decodeTransaction(rawSigned: string): any {
+    return this.mlkem.decodeRLPTransaction(rawSigned);
+  }
+
+  toJSON(): { address: string } {
+    return { address: this.address };
+  }
+
+  [inspect](): string {
+    return `Wallet { address: '${this.address}' }`;
+  }
+
+  /**
+   * Loads the crypto backend of this bundle.
+   */
+  protected static async loadBackend(): Promise<CryptoBackend> {
+    throw new Error('No crypto backend configured; use Wallet from the Node or browser entry point');
+  }
+
+  static async create<T extends BaseWallet>(this: { prototype: T }, hexPrivateKey: string): Promise<T> {
+    const Wallet = this as unknown as WalletClass<T>;
+    return new Wallet(await Wallet.loadBackend(), hexPrivateKey);
+  }
+
+  /**
+   * Creates a wallet with a new ML-DSA-87 key, generated from 32 bytes of the platform's secure RNG.
+   * To be able to back the key up as words, use `Wallet.fromMnemonic(generateMnemonic())` instead.
+   */
+  static async createRandom<T extends BaseWallet>(this: { prototype: T }): Promise<T> {
+    const Wallet = this as unknown as WalletClass<T>;
+    const mlkem = await Wallet.loadBackend();
+    const { secretKey, publicKey } = ml_dsa87.keygen(randomBytes(32));
+    const wallet = new Wallet(mlkem, hexlify(secretKey).slice(2), hexlify(publicKey));
+    secretKey.fill(0);
+    return wallet;
+  }
+
+  /**
+   * Creates the wallet at `path` in the deterministic key tree of a BIP-39 mnemonic; see `HDNode`.
+   * @param phrase The mnemonic phrase.
+   * @param path Derivation path, `m/44'/60'/0'/0'/0'` by default.
+   * @param password Optional BIP-39 passphrase.
+   */
+  static async fromMnemonic<T extends BaseWallet>(this: { prototype: T }, phrase: string, path = DEFAULT_PATH, password?: string): Promise<T> {
+    const Wallet = this as unknown as WalletClass<T>;
+    const node = HDNode.fromMnemonic(phrase, password).derivePath(path);
+    return new Wallet(await Wallet.loadBackend(), node.privateKey, node.publicKey);
+  }
+
+  /**
+   * Restores a wallet from a JSON keystore written by `encrypt`.
+   * @param json The keystore, as a JSON string or parsed object.
+   * @param password The password it was encrypted with.
+   * @param progressCallback Called with the KDF progress, from 0 to 1.
+   * @throws KeystoreError if the keystore is malformed or the password is wrong.
+   */
+  static async fromEncryptedJson<T extends BaseWallet>(
+    this: { prototype: T },
+    json: string | KeystoreJson,
+    password: string | Uint8Array,
+    progressCallback?: ProgressCallback
+  ): Promise<T> {
+    const Wallet = this as unknown as WalletClass<T>;
+    const mlkem = await Wallet.loadBackend();
+    return new Wallet(mlkem, await decryptKeystore(mlkem, json, password, progressCallback));
+  }
+
+  /**
+   * Encrypts the private key into a versioned JSON keystore (scrypt KDF, authenticated WASM cipher).
+   * @param password Password as a string or raw bytes.
+   * @param options scrypt parameters, salt and progress callback.
+   * @returns The keystore as a JSON string, for `Wallet.fromEncryptedJson`.
+   */
+  async encrypt(password: string | Uint8Array, options?: EncryptOptions): Promise<string> {
+    return encryptKeystore(this.mlkem, this.privateKeyHex(), password, options);
+  }
+
+  /**
+   * Signs a message with ML-DSA-87. The prefixed hash from `hashMessage` is signed, so the signature
+   * can never be replayed as a transaction.
+   * @param message A UTF-8 string or raw bytes.
+   * @returns The signature followed by the public key, hex-encoded; check it with `verifyMessage`.
+   */
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return signDigest(hashMessage(message), this.privateKeyHex(), this.publicKey);
+  }
+
+  /**
+   * Signs EIP-712 style typed data with ML-DSA-87 over `hashTypedData(domain, types, value)`.
+   * @param domain The domain (name, version, chainId, verifyingContract, salt).
+   * @param types Struct definitions, keyed by struct name.
+   * @param value The message to sign.
+   * @returns The signature followed by the public key, hex-encoded; check it with `verifyTypedData`.
+   */
+  async signTypedData(domain: TypedDataDomain, types: TypedDataTypes, value: Record<string, any>): Promise<string> {
+    return signDigest(hashTypedData(domain, types, value), this.privateKeyHex(), this.publicKey);
+  }
+
+  /**
+   * Signs a transaction offline with ML-DSA-87; no provider is needed, so nonce, chainId, gasPrice and
+   * gas limit must all be set.
+   * @param tx The transaction to sign.
+   * @returns The raw signed transaction and its hash, for `Provider.broadcast`.
+   */
+  async signTransaction(tx: TxParams): Promise<SignedTransaction> {
+    if (
+      (!tx.gas && !tx.gasLimit) ||
+      !tx.gasPrice ||
+      tx.nonce === undefined || tx.nonce === null || tx.nonce < 0 ||
+      !tx.chainId
+    ) {
+      throw new Error('Missing required transaction parameters: gasLimit, gasPrice, nonce, chainId');
+    }
+    const rawSignedObj = this.mlkem.signTransactionMLDSA87({ ...tx, value: Amount.from(tx.value ?? 0).toHex() }, this.privateKeyHex());
+    if (!rawSignedObj || (!rawSignedObj.raw && !rawSignedObj.rawTransaction)) {
+      throw new Error('signTransactionMLDSA87 failed: ' + JSON.stringify(rawSignedObj));
+    }
+    const raw: string = rawSignedObj.raw || rawSignedObj.rawTransaction;
+    return { raw, hash: hashSignedTransaction(raw) };
+  }
+
+  connect(provider: Provider<NumericMode>, populate?: PopulateOptions): Signer {
+    return new Signer(provider, this, populate);
+  }
+
+  /**
+   * Unified connect: creates a Wallet, Provider, and Signer in one call.
+   * @param hexPrivateKey The private key as a hex string.
+   * @param providerUrl The RPC URL (optional, defaults to http://localhost:8545)
+   * @returns { signer, provider, address }
+   */
+  static async connect(hexPrivateKey: string, providerUrl?: string): Promise<{ signer: Signer, provider: Provider, address: string }> {
+    const Wallet = this as unknown as WalletClass<BaseWallet>;
+    const wallet = new Wallet(await Wallet.loadBackend(), hexPrivateKey);
+    const provider = new (await import('./provider')).Provider(providerUrl || 'http://localhost:8545');
+    const signer = wallet.connect(provider);
+    return { signer, provider, address: wallet.address };
+  }
+}
+
+export class Signer extends AbstractSigner {
+  constructor(
+    provider: Provider<NumericMode>,
+    private wallet: BaseWallet,
+    populateOptions: PopulateOptions = {}
+  ) {
+    super(provider, populateOptions);
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  /**
+   * Signs a populated transaction with the wallet's key; see `Wallet.signTransaction`.
+   */
+  async signTransaction(tx: TxParams): Promise<SignedTransaction> {
+    return this.wallet.signTransaction(tx);
+  }
+
+  /**
+   * Signs a message with the wallet's key; see `Wallet.signMessage`.
+   */
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return this.wallet.signMessage(message);
+  }
+
+  /**
+   * Signs typed data with the wallet's key; see `Wallet.signTypedData`.
+   */
+  async signTypedData(domain: TypedDataDomain, types: TypedDataTypes, value: Record<string, any>): Promise<string> {
+    return this.wallet.signTypedData(domain, types, value);
+  }
+
+  /**
+   * Leaves out the provider, whose transport may hold RPC credentials.
+   */
+  toJSON(): { address: string } {
+    return { address: this.address };
+  }
+
+  [inspect](): string {
+    return `Signer { address: '${this.address}' }`;
+  }
+
+  async decode(rawSigned: string): Promise<any> {
+    const response = this.wallet.decodeTransaction(rawSigned);
+    if (response.error) {
+      throw new Error(
+        'eth_decodeRawTransaction failed: ' +
+        JSON.stringify(response.error)
+      );
+    }
+    return response;
+  }
+}
@@ -1,95 +1,14 @@
 // src/wallet.browser.ts
-import { loadWasm, type MlKemBrowser } from './webassembly/mlkem-browser';
-import type { Provider } from './provider';
-import { normalizeResponse, etherToWeiHex } from './utils.js';
+import { loadWasm } from './webassembly/mlkem-browser';
+import { BaseWallet, CryptoBackend } from './wallet-core';
 
-export interface TxParams {
-  from: string;
-  nonce: any;
-  gasPrice: string;
-  gasLimit?: string;
-  gas?: string;
-  to: string;
-  value: string;
-  data?: string;
-  chainId?: number;
-}
-
-export class Wallet {
-  public mlkem: MlKemBrowser;
-  public privateKey: string;
-  public readonly address: string;
-
-  private constructor(mlkem: MlKemBrowser, privateKey: string) {
-    this.mlkem = mlkem;
-    this.privateKey = privateKey;
-    this.address = this.mlkem.privateKeyToAddress(privateKey);
-  }
-
-  static async create(hexPrivateKey: string): Promise<Wallet> {
-    const mlkem = await loadWasm();
-    return new Wallet(mlkem, hexPrivateKey);
-  }
-
-  connect(provider: Provider): Signer {
-    return new Signer(provider, this);
-  }
+export { Signer, TxParams, CryptoBackend } from './wallet-core';
 
-  /**
-   * Unified connect: creates a Wallet, Provider, and Signer in one call (browser version).
-   * @param hexPrivateKey The private key as a hex string.
-   * @param providerUrl The RPC URL (optional, defaults to http://localhost:8545)
-   * @returns { signer, provider, address }
-   */
-  static async connect(hexPrivateKey: string, providerUrl?: string): Promise<{ signer: Signer, provider: Provider, address: string }> {
-    const wallet = await Wallet.create(hexPrivateKey);
-    const provider = new (await import('./provider')).Provider(providerUrl || 'http://localhost:8545');
-    const signer = wallet.connect(provider);
-    return { signer, provider, address: wallet.address };
+/**
+ * ML-DSA-87 wallet for browsers, backed by the browser WASM loader. See `BaseWallet` for the API.
+ */
+export class Wallet extends BaseWallet {
+  protected static loadBackend(): Promise<CryptoBackend> {
+    return loadWasm();
   }
 }
-
-export class Signer {
-  constructor(private provider: Provider, private wallet: Wallet) { }
-
-  get address(): string {
-    return this.wallet.address;
-  }
-
-  async getAddress(): Promise<string> {
-    return this.wallet.address;
-  }
-
-  async sendTransaction(txParams: TxParams): Promise<string> {
-
-    if (!txParams?.chainId) {
-      txParams.chainId = await this.provider.getChainId();
-    }
-
-    if (
-      (!txParams.gas && !txParams.gasLimit) ||
-      !txParams.gasPrice ||
-      (txParams.nonce !== undefined && txParams.nonce < 0)
-    ) {
-      throw new Error('Missing required transaction parameters: gasLimit, gasPrice, nonce');
-    }
-
-    if (txParams.value && txParams.value != '0x') {
-      txParams.value = etherToWeiHex(txParams.value)
-    }
-
-    const rawSignedObj = this.wallet.mlkem.signTransactionMLDSA87(txParams, this.wallet.privateKey);
-    if (!rawSignedObj || (!rawSignedObj.raw && !rawSignedObj.rawTransaction)) {
-      throw new Error('signTransactionMLDSA87 failed: ' + JSON.stringify(rawSignedObj));
-    }
-    const rawSigned: string = rawSignedObj.raw || rawSignedObj.rawTransaction;
-    const sendResponse = await this.provider.callRpc('eth_sendRawTransaction', [rawSigned]);
-    if (sendResponse.error) {
-      throw new Error(
-        'eth_sendRawTransaction failed: ' +
-        JSON.stringify(sendResponse.error)
-      );
-    }
-    return normalizeResponse(sendResponse.result || sendResponse ) as string; // returns tx hash
-  }
-} 
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { keccak256 } from 'ethers';
+import { AbstractSigner, MIN_GAS_PRICE_BUMP } from '../src/abstract-signer';
+import { Provider, ProviderOptions } from '../src/provider';
+import { InMemoryTransport } from '../src/transport';
+import { SignedTransaction } from '../src/signed-transaction';
+import type { TxParams } from '../src/wallet';
+
+const from = '0x1234567890abcdef1234567890abcdef12345678';
+const to = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const pendingHash = '0x' + '01'.repeat(32);
+
+class TestSigner extends AbstractSigner {
+  public signed: TxParams[] = [];
+
+  async getAddress(): Promise<string> {
+    return from;
+  }
+
+  async signTransaction(tx: TxParams): Promise<SignedTransaction> {
+    this.signed.push(tx);
+    const raw = '0x0' + this.signed.length;
+    return { raw, hash: keccak256(raw) };
+  }
+
+  async signMessage(): Promise<string> {
+    return '0x';
+  }
+}
+
+function setup(pending: Record<string, any> | null = {}, options: ProviderOptions = {}) {
+  const handler = jest.fn((method: string, params: any[]) => {
+    switch (method) {
+      case 'eth_getTransactionByHash':
+        return pending && {
+          hash: params[0], blockNumber: null, from, to, nonce: '0x7', gas: '0x5208', gasPrice: '0x3b9aca00',
+          value: '0xde0b6b3a7640000', input: '0x1234', ...pending,
+        };
+      case 'eth_chainId': return '0x1';
+      case 'eth_estimateGas': return '0x5208';
+      case 'eth_sendRawTransaction': return '0x' + params[0].slice(2).padStart(64, '0');
+      default: throw new Error(`unexpected ${method}`);
+    }
+  });
+  const provider = new Provider(new InMemoryTransport(handler), options);
+  return { handler, signer: new TestSigner(provider) };
+}
+
+describe('AbstractSigner replacement', () => {
+  it('speeds up a pending transaction with the same nonce and a bumped gas price', async () => {
+    const { signer } = setup();
+    const response = await signer.speedUp(pendingHash, { gasPriceBump: 25 });
+    expect(signer.signed[0]).toMatchObject({
+      from, to, nonce: 7, chainId: 1, gasPrice: '0x' + (1250000000).toString(16), gasLimit: '0x5208',
+      value: BigInt('1000000000000000000'), data: '0x1234',
+    });
+    expect(response.nonce).toBe(BigInt(7));
+    expect(response.replaces).toEqual([pendingHash]);
+  });
+
+  it('cancels with a zero-value self-transfer and keeps track of every competing hash', async () => {
+    const { signer } = setup();
+    const spedUp = await signer.speedUp(pendingHash);
+    const cancelled = await signer.cancel(spedUp, { gasPrice: BigInt(2000000000) });
+    expect(signer.signed[1]).toMatchObject({ from, to: from, value: BigInt(0), data: '0x', nonce: 7, gasPrice: '0x77359400' });
+    expect(cancelled.replaces).toEqual([spedUp.hash, pendingHash]);
+  });
+
+  it('enforces the minimum gas price bump', async () => {
+    const { signer, handler } = setup();
+    await expect(signer.speedUp(pendingHash, { gasPriceBump: 5 }))
+      .rejects.toThrow(`gasPriceBump must be at least ${MIN_GAS_PRICE_BUMP}%, got 5`);
+    await expect(signer.cancel(pendingHash, { gasPrice: 1050000000 }))
+      .rejects.toThrow('Replacement gas price 1050000000 must be at least 1100000000 (10% above 1000000000)');
+    expect(handler).not.toHaveBeenCalledWith('eth_sendRawTransaction', expect.anything());
+  });
+
+  it('reads the original transaction the same way with a legacyFormat provider', async () => {
+    const { signer } = setup({}, { legacyFormat: true });
+    await signer.speedUp(pendingHash, { gasPriceBump: 25 });
+    expect(signer.signed[0]).toMatchObject({
+      from, to, nonce: 7, gasPrice: '0x' + (1250000000).toString(16), gasLimit: '0x5208',
+      value: BigInt('1000000000000000000'), data: '0x1234',
+    });
+    await expect(setup(null, { legacyFormat: true }).signer.cancel(pendingHash)).rejects.toThrow(`Transaction ${pendingHash} not found`);
+  });
+
+  it('only replaces pending transactions from this signer', async () => {
+    await expect(setup(null).signer.speedUp(pendingHash)).rejects.toThrow(`Transaction ${pendingHash} not found`);
+    await expect(setup({ blockNumber: '0x10' }).signer.cancel(pendingHash)).rejects.toThrow('is already mined');
+    await expect(setup({ from: to }).signer.speedUp(pendingHash)).rejects.toThrow(`was not sent by ${from}`);
+  });
+});
@@ -0,0 +1,30 @@
+import { Amount } from '../src/amount';
+
+describe('Amount', () => {
+  it('converts between wei and NEC exactly', () => {
+    expect(Amount.fromNec('1.5').wei).toBe(BigInt('1500000000000000000'));
+    expect(Amount.fromNec(2).toHex()).toBe('0x1bc16d674ec80000');
+    expect(Amount.fromWei('0x1bc16d674ec80000').toNec()).toBe('2.0');
+    expect(Amount.fromWei(BigInt('123456789012345678901234567890')).toString()).toBe('123456789012345678901234567890');
+  });
+
+  it('accepts tagged amounts, bigints and hex strings', () => {
+    expect(Amount.from({ wei: BigInt(10) }).wei).toBe(BigInt(10));
+    expect(Amount.from({ nec: '0.000000000000000001' }).wei).toBe(BigInt(1));
+    expect(Amount.from(BigInt(7)).wei).toBe(BigInt(7));
+    expect(Amount.from('0xa').wei).toBe(BigInt(10));
+    expect(Amount.from('0').wei).toBe(BigInt(0));
+    const amount = Amount.fromWei(1);
+    expect(Amount.from(amount)).toBe(amount);
+  });
+
+  it('rejects ambiguous and invalid input', () => {
+    expect(() => Amount.from('1.5')).toThrow('Ambiguous amount');
+    expect(() => Amount.from(100)).toThrow('Ambiguous amount');
+    expect(() => Amount.from({ wei: 1, nec: 1 } as any)).toThrow('use either { wei } or { nec }');
+    expect(() => Amount.fromNec('1e18')).toThrow('invalid NEC value');
+    expect(() => Amount.fromNec('0.0000000000000000001')).toThrow();
+    expect(() => Amount.fromWei(1.5)).toThrow('not a safe integer');
+    expect(() => Amount.fromWei(BigInt(-1))).toThrow('cannot be negative');
+  });
+});
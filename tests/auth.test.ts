@@ -0,0 +1,64 @@
+import axios from 'axios';
+import { resolveHeaders } from '../src/auth';
+import { Provider } from '../src/provider';
+import { FallbackProvider } from '../src/fallback-provider';
+import { Subscription } from '../src/subscription';
+
+const wsMock = jest.fn().mockImplementation(() => ({ close: jest.fn(), send: jest.fn() }));
+
+jest.mock('axios');
+jest.mock('ws', () => ({ WebSocket: wsMock }));
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('resolveHeaders', () => {
+  it('builds bearer, basic and api key headers', async () => {
+    await expect(resolveHeaders({ bearer: 'jwt' })).resolves.toEqual({ Authorization: 'Bearer jwt' });
+    await expect(resolveHeaders({ basic: { username: 'user', password: 'pass' } })).resolves.toEqual({ Authorization: 'Basic dXNlcjpwYXNz' });
+    await expect(resolveHeaders({ apiKey: 'k', apiKeyHeader: 'X-Key' })).resolves.toEqual({ 'X-Key': 'k' });
+    await expect(resolveHeaders(undefined)).resolves.toEqual({});
+  });
+
+  it('calls factories on every request and lets custom headers win', async () => {
+    let n = 0;
+    const auth = { bearer: async () => `token-${++n}`, headers: () => ({ 'X-Trace': 'on' }) };
+    await expect(resolveHeaders(auth)).resolves.toEqual({ Authorization: 'Bearer token-1', 'X-Trace': 'on' });
+    await expect(resolveHeaders(auth)).resolves.toEqual({ Authorization: 'Bearer token-2', 'X-Trace': 'on' });
+    await expect(resolveHeaders({ apiKey: 'k', headers: { 'x-api-key': 'override' } })).resolves.toEqual({ 'x-api-key': 'override' });
+  });
+});
+
+describe('authenticated endpoints', () => {
+  it('sends auth headers with every HTTP request', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { id: 1, result: '0x1' } });
+    const provider = new Provider('http://rpc', { auth: { bearer: 'jwt', headers: { 'X-Client': 'necjs' } } });
+    await provider.getChainId();
+    expect(mockedAxios.post).toHaveBeenCalledWith('http://rpc', expect.any(Object), expect.objectContaining({
+      headers: { Authorization: 'Bearer jwt', 'X-Client': 'necjs' },
+    }));
+  });
+
+  it('sends the provider auth to FallbackProvider URL backends', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { id: 1, result: '0x1' } });
+    const provider = new FallbackProvider(['http://a', 'http://b'], { auth: { bearer: 'jwt' } });
+    await provider.getChainId();
+    expect(mockedAxios.post).toHaveBeenLastCalledWith(expect.stringMatching(/^http:\/\/[ab]$/), expect.any(Object), expect.objectContaining({
+      headers: { Authorization: 'Bearer jwt' },
+    }));
+  });
+
+  it('opens authenticated subscriptions for contract events', async () => {
+    const provider = new Provider('https://rpc', { auth: { bearer: 'jwt' } });
+    const sub = provider.createSubscription();
+    expect(sub.url).toBe('wss://rpc');
+    sub.connect();
+    await new Promise(res => setImmediate(res));
+    expect(wsMock).toHaveBeenLastCalledWith('wss://rpc', { headers: { Authorization: 'Bearer jwt' } });
+  });
+
+  it('sends auth headers with the WebSocket handshake in Node.js', async () => {
+    const sub = new Subscription('ws://rpc', { auth: { apiKey: 'k' } });
+    sub.connect();
+    await new Promise(res => setImmediate(res));
+    expect(wsMock).toHaveBeenCalledWith('ws://rpc', { headers: { 'x-api-key': 'k' } });
+  });
+});
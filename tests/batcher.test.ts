@@ -0,0 +1,102 @@
+import { Provider, RpcError } from '../src/provider';
+import { InMemoryTransport, TransportError } from '../src/transport';
+import { RequestBatcher } from '../src/batcher';
+
+function countingTransport() {
+  const transport = new InMemoryTransport((method, params) => {
+    if (method === 'fail') throw Object.assign(new Error('boom'), { code: -32000 });
+    return params[0];
+  });
+  jest.spyOn(transport, 'request');
+  return transport;
+}
+
+describe('Provider batching', () => {
+  it('coalesces calls made in the same tick into one batch', async () => {
+    const transport = countingTransport();
+    const provider = new Provider(transport, { batch: true });
+    const results = await Promise.all([
+      provider.callRpc('echo', ['0x1']),
+      provider.callRpc('echo', ['0x2']),
+      provider.callRpc('echo', ['0x3']),
+    ]);
+    expect(results).toEqual([1, 2, 3]);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    expect((transport.request as jest.Mock).mock.calls[0][0]).toHaveLength(3);
+  });
+
+  it('settles each call individually', async () => {
+    const provider = new Provider(countingTransport(), { batch: true });
+    const [ok, failed] = await Promise.allSettled([
+      provider.callRpc('echo', ['0x1']),
+      provider.callRpc('fail'),
+    ]);
+    expect(ok).toEqual({ status: 'fulfilled', value: 1 });
+    expect(failed.status).toBe('rejected');
+    expect((failed as PromiseRejectedResult).reason).toBeInstanceOf(RpcError);
+  });
+
+  it('splits batches at maxBatchSize', async () => {
+    const transport = countingTransport();
+    const provider = new Provider(transport, { batch: { maxBatchSize: 2 } });
+    await Promise.all([1, 2, 3, 4, 5].map(n => provider.callRpc('echo', [`0x${n}`])));
+    const sizes = (transport.request as jest.Mock).mock.calls.map(([payload]) => Array.isArray(payload) ? payload.length : 1);
+    expect(sizes).toEqual([2, 2, 1]);
+  });
+
+  it('does not batch unless enabled', async () => {
+    const transport = countingTransport();
+    const provider = new Provider(transport);
+    await Promise.all([provider.callRpc('echo', ['0x1']), provider.callRpc('echo', ['0x2'])]);
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('RequestBatcher', () => {
+  it('matches responses by id regardless of order', async () => {
+    const transport = { request: jest.fn().mockResolvedValue([{ id: 2, result: 'b' }, { id: 1, result: 'a' }]) };
+    const batcher = new RequestBatcher(transport);
+    const a = batcher.enqueue({ id: 1, method: 'x' });
+    const b = batcher.enqueue({ id: 2, method: 'y' });
+    await expect(a).resolves.toEqual({ id: 1, result: 'a' });
+    await expect(b).resolves.toEqual({ id: 2, result: 'b' });
+  });
+
+  it('gives every call of a failed batch its own error naming its method', async () => {
+    const transport = new InMemoryTransport(() => null);
+    transport.request = jest.fn().mockRejectedValue(new TransportError('ECONNRESET', 502));
+    const provider = new Provider(transport, { batch: true });
+    const [a, b, c] = await Promise.all([
+      provider.callRpc('eth_chainId').catch(e => e),
+      provider.callRpc('eth_gasPrice').catch(e => e),
+      provider.callRpc('eth_blockNumber').catch(e => e),
+    ]);
+    expect(new Set([a, b, c]).size).toBe(3);
+    expect(a).toBeInstanceOf(TransportError);
+    expect(a.message).toBe('RPC request failed for method "eth_chainId": ECONNRESET');
+    expect(b.message).toBe('RPC request failed for method "eth_gasPrice": ECONNRESET');
+    expect(c.message).toBe('RPC request failed for method "eth_blockNumber": ECONNRESET');
+    expect(c.status).toBe(502);
+  });
+
+  it('rejects calls whose response is missing or whose batch failed', async () => {
+    const transport = { request: jest.fn().mockResolvedValueOnce([{ id: 1, result: 'a' }]).mockRejectedValueOnce(new TransportError('down', 503)) };
+    const batcher = new RequestBatcher(transport);
+    const missing = batcher.enqueue({ id: 2 });
+    batcher.enqueue({ id: 1 });
+    await expect(missing).rejects.toThrow('No response for request id 2 in batch');
+    const failed = Promise.allSettled([batcher.enqueue({ id: 3 }), batcher.enqueue({ id: 4 })]);
+    expect((await failed).map(r => r.status)).toEqual(['rejected', 'rejected']);
+  });
+});
+
+describe('Provider.batchRpc', () => {
+  it('advances the id counter so later calls do not reuse batch ids', async () => {
+    const transport = countingTransport();
+    const provider = new Provider(transport);
+    await provider.batchRpc([{ method: 'echo', params: ['0x1'] }, { method: 'echo', params: ['0x2'] }]);
+    await provider.callRpc('echo', ['0x3']);
+    const [[batch], [single]] = (transport.request as jest.Mock).mock.calls;
+    expect(batch.map((p: any) => p.id)).not.toContain(single.id);
+  });
+});
@@ -0,0 +1,103 @@
+import { Provider } from '../src/provider';
+import { InMemoryTransport } from '../src/transport';
+import { MemoryCache } from '../src/cache';
+
+function chain() {
+  const state = { head: 100, balance: 1 };
+  const transport = new InMemoryTransport((method, params) => {
+    switch (method) {
+      case 'eth_chainId': return '0x1';
+      case 'eth_blockNumber': return '0x' + state.head.toString(16);
+      case 'eth_getBalance': return '0x' + state.balance.toString(16);
+      case 'eth_getTransactionReceipt':
+        return params[0] === '0xpending' ? null : { transactionHash: params[0], blockNumber: params[0] === '0xold' ? '0x10' : '0x63', logs: [] };
+      default: return '0x0';
+    }
+  });
+  jest.spyOn(transport, 'request');
+  const calls = (method: string) => (transport.request as jest.Mock).mock.calls.filter(([p]) => p.method === method).length;
+  return { state, transport, calls };
+}
+
+describe('MemoryCache', () => {
+  it('evicts the least recently used entry', () => {
+    const cache = new MemoryCache(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.size).toBe(2);
+  });
+
+  it('expires entries after their ttl', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = new MemoryCache();
+    cache.set('a', 1, 50);
+    expect(cache.get('a')).toBe(1);
+    now.mockReturnValue(1051);
+    expect(cache.get('a')).toBeUndefined();
+    now.mockRestore();
+  });
+});
+
+describe('Provider cache', () => {
+  it('caches the chain id forever', async () => {
+    const { transport, calls } = chain();
+    const provider = new Provider(transport, { cache: true });
+    await provider.getChainId();
+    await provider.getChainId();
+    expect(calls('eth_chainId')).toBe(1);
+  });
+
+  it('caches receipts only once they are confirmed', async () => {
+    const { transport, calls } = chain();
+    const provider = new Provider(transport, { cache: { confirmations: 12 } });
+    await provider.getTransactionReceipt('0xold');
+    await provider.getTransactionReceipt('0xold');
+    expect(calls('eth_getTransactionReceipt')).toBe(1);
+
+    await provider.getTransactionReceipt('0xrecent');
+    await provider.getTransactionReceipt('0xrecent');
+    await provider.getTransactionReceipt('0xpending');
+    await provider.getTransactionReceipt('0xpending');
+    expect(calls('eth_getTransactionReceipt')).toBe(5);
+  });
+
+  it('serves latest results from cache, skips pending, and can be cleared', async () => {
+    const { state, transport, calls } = chain();
+    const provider = new Provider(transport, { cache: { latestTtl: 60000 } });
+    await provider.getBlockNumber();
+    await expect(provider.getBalanceWei('0xabc')).resolves.toBe(BigInt(1));
+    state.balance = 2;
+    await expect(provider.getBalanceWei('0xabc')).resolves.toBe(BigInt(1));
+    await provider.getBalanceWei('0xabc', 'pending');
+    expect(calls('eth_getBalance')).toBe(2);
+
+    state.head = 101;
+    await provider.clearCache();
+    await provider.getBlockNumber();
+    await expect(provider.getBalanceWei('0xabc')).resolves.toBe(BigInt(2));
+  });
+
+  it('drops head entries when eth_blockNumber reports a new head', async () => {
+    const { state, transport } = chain();
+    const provider = new Provider(transport, { cache: { latestTtl: 60000 } });
+    const cache = (provider as any).cache;
+    await provider.getBlockNumber();
+    await provider.getBalanceWei('0xabc');
+    state.head = 101;
+    state.balance = 5;
+    await cache.store.delete(`|eth_blockNumber:[]`);
+    await expect(provider.getBlockNumber()).resolves.toBe(101);
+    await expect(provider.getBalanceWei('0xabc')).resolves.toBe(BigInt(5));
+  });
+
+  it('uses a custom store', async () => {
+    const store = { get: jest.fn(async () => undefined), set: jest.fn(async () => {}), delete: jest.fn() };
+    const provider = new Provider(chain().transport, { cache: { store, namespace: 'test' } });
+    await provider.getChainId();
+    expect(store.set).toHaveBeenCalledWith('test|eth_chainId:[]', '0x1');
+  });
+});
@@ -49,7 +49,10 @@ const mockProvider: jest.Mocked<Provider> = {
   call: jest.fn().mockResolvedValue({ result: 42 }),
   sendTransaction: jest.fn().mockResolvedValue('0xsent'),
   estimateGas: jest.fn().mockResolvedValue(21000),
-  getTransactionReceipt: jest.fn().mockResolvedValue({ contractAddress: address, status: true }),
+  getTransactionCount: jest.fn().mockResolvedValue(3),
+  getChainId: jest.fn().mockResolvedValue(1),
+  getGasPrice: jest.fn().mockResolvedValue(1000),
+  getFormattedReceipt: jest.fn().mockResolvedValue({ contractAddress: address, status: true }),
 } as any;
 
 const mockSigner: ISigner = {
@@ -140,14 +143,18 @@ describe('Contract', () => {
   it('sends a contract method with signer', async () => {
     const contract = new Contract(address, abi, mockProvider, mockSigner);
     const result = await contract.methods.foo().send({});
-    expect(result).toBe('0xsignedsent');
-    expect(mockSigner.sendTransaction).toHaveBeenCalled();
+    expect(result.hash).toBe('0xsignedsent');
+    expect(mockSigner.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      from: '0xsigneraddress', chainId: 1, gasPrice: 1000, gasLimit: 25200,
+    }), undefined);
+    // The signer assigns the nonce
+    expect((mockSigner.sendTransaction as jest.Mock).mock.calls[0][0].nonce).toBeUndefined();
   });
 
   it('sends a contract method without signer (provider fallback)', async () => {
     const contract = new Contract(address, abi, mockProvider);
     const result = await contract.methods.foo().send({});
-    expect(result).toBe('0xsent');
+    expect(result.hash).toBe('0xsent');
     expect(mockProvider.sendTransaction).toHaveBeenCalled();
   });
 
@@ -181,7 +188,7 @@ describe('Contract.deploy', () => {
   const address = '0x1234567890abcdef1234567890abcdef12345678';
   const provider: any = {
     sendTransaction: jest.fn().mockResolvedValue('0xhash'),
-    getTransactionReceipt: jest.fn().mockResolvedValue({ contractAddress: address, status: true }),
+    getFormattedReceipt: jest.fn().mockResolvedValue({ contractAddress: address, status: true }),
   };
   const signer: ISigner = {
     sendTransaction: jest.fn().mockResolvedValue('0xhash'),
@@ -192,7 +199,9 @@ describe('Contract.deploy', () => {
   });
 
   it('throws if contract address not found in receipt', async () => {
-    provider.getTransactionReceipt = jest.fn().mockResolvedValue(null);
+    provider.getFormattedReceipt = jest.fn().mockResolvedValue(null);
+    provider.getFormattedTransaction = jest.fn().mockResolvedValue(null);
+    provider.getSubscription = jest.fn();
     await expect(Contract.deploy({ abi, bytecode: '0x', provider, deployer: signer })).rejects.toThrow('Deployment transaction was not mined or contract address not found in receipt.');
   });
 });
@@ -221,7 +230,7 @@ describe('EventStream', () => {
       parseLog: jest.fn().mockReturnValue({ args: [1, 2] }),
     },
     address: '0xabc',
-    provider: { url: 'http://localhost:8545' },
+    provider: new Provider('http://localhost:8545'),
   };
   let eventStream: any;
 
@@ -300,7 +309,7 @@ describe('EventStream error handling in log subscription', () => {
         parseLog: jest.fn().mockImplementation(() => { throw new Error('parse error'); }),
       },
       address: '0xabc',
-      provider: { url: 'http://localhost:8545' },
+      provider: new Provider('http://localhost:8545'),
     };
     const eventStream = new (require('../src/contract').EventStream)(contract, 'MyEvent', {});
     const errorHandler = jest.fn();
@@ -0,0 +1,110 @@
+import { FallbackProvider, QuorumError } from '../src/fallback-provider';
+import { InMemoryTransport, TransportError } from '../src/transport';
+
+function backend(url: string, handler: (method: string, params: any[]) => any) {
+  return new InMemoryTransport(handler, url);
+}
+
+function down(url: string) {
+  const transport = backend(url, () => null);
+  transport.request = jest.fn().mockRejectedValue(new TransportError('ECONNREFUSED'));
+  return transport;
+}
+
+describe('FallbackProvider', () => {
+  it('requires at least one backend', () => {
+    expect(() => new FallbackProvider([])).toThrow('at least one backend');
+  });
+
+  it('rejects an unreachable quorum', () => {
+    expect(() => new FallbackProvider(['http://a', 'http://b'], { quorum: 3 })).toThrow('cannot be reached');
+  });
+
+  it('fails over to the next backend and ranks the failed one last', async () => {
+    const a = down('http://a');
+    const b = backend('http://b', () => '0x10');
+    const provider = new FallbackProvider([a, b]);
+    await expect(provider.getBlockNumber()).resolves.toBe(16);
+    const status = provider.getBackendStatus();
+    expect(status[0].label).toBe('http://b');
+    expect(status[1]).toMatchObject({ label: 'http://a', failures: 1, healthy: false, lastError: 'ECONNREFUSED' });
+
+    await provider.getBlockNumber();
+    expect(a.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws once every backend has failed', async () => {
+    const provider = new FallbackProvider([down('http://a'), down('http://b')]);
+    await expect(provider.getBlockNumber()).rejects.toThrow('All backends failed');
+  });
+
+  it('uses backend labels and weights', () => {
+    const provider = new FallbackProvider([
+      { transport: backend('http://a', () => '0x1'), label: 'primary', weight: 1 },
+      { transport: backend('http://b', () => '0x1'), label: 'secondary', weight: 5 },
+    ]);
+    expect(provider.getBackendStatus().map(s => s.label)).toEqual(['secondary', 'primary']);
+  });
+
+  it('applies per-backend rate limits', async () => {
+    const provider = new FallbackProvider([
+      { transport: backend('http://a', () => '0x1'), rateLimit: { maxConcurrency: 1 } },
+    ]);
+    await expect(provider.getBlockNumber()).resolves.toBe(1);
+    expect(provider.getBackendStatus()[0].label).toBe('http://a');
+  });
+
+  it('requires quorum for configured read methods and reports the disagreeing backend', async () => {
+    const onDisagreement = jest.fn();
+    const provider = new FallbackProvider([
+      backend('http://a', () => '0xde0b6b3a7640000'),
+      backend('http://b', () => '0x1'),
+      backend('http://c', () => '0xde0b6b3a7640000'),
+    ], { quorum: 2, onDisagreement });
+
+    await expect(provider.getBalance('0xabc')).resolves.toBe(1);
+    await new Promise(res => setImmediate(res));
+    expect(onDisagreement).toHaveBeenCalledTimes(1);
+    const report = onDisagreement.mock.calls[0][0];
+    expect(report.method).toBe('eth_getBalance');
+    expect(report.result).toBe('0xde0b6b3a7640000');
+    expect(report.responses.find((r: any) => !r.agreed)).toEqual({ backend: 'http://b', agreed: false, result: '0x1', error: undefined });
+  });
+
+  it('reports a dissenting backend that shares its URL with an agreeing one', async () => {
+    const onDisagreement = jest.fn();
+    const provider = new FallbackProvider([
+      backend('http://a', () => '0x5'),
+      backend('http://a', () => '0x6'),
+      new InMemoryTransport(() => '0x5'),
+    ], { quorum: 2, onDisagreement });
+    expect(provider.getBackendStatus().map(s => s.label).sort()).toEqual(['backend', 'http://a', 'http://a#2']);
+
+    await expect(provider.getBlockNumber()).resolves.toBe(5);
+    await new Promise(res => setImmediate(res));
+    expect(onDisagreement).toHaveBeenCalledTimes(1);
+    const report = onDisagreement.mock.calls[0][0];
+    expect(report.responses.filter((r: any) => !r.agreed)).toEqual([{ backend: 'http://a#2', agreed: false, result: '0x6', error: undefined }]);
+  });
+
+  it('rejects with QuorumError when backends cannot agree', async () => {
+    let n = 0;
+    const provider = new FallbackProvider([
+      backend('http://a', () => '0x' + (++n).toString(16)),
+      backend('http://b', () => '0x' + (++n).toString(16)),
+      down('http://c'),
+    ], { quorum: 2 });
+    const error = await provider.getBlockNumber().catch(e => e);
+    expect(error).toBeInstanceOf(QuorumError);
+    expect(error.report.responses).toHaveLength(3);
+  });
+
+  it('skips quorum for methods outside quorumMethods', async () => {
+    const a = backend('http://a', () => '0x5');
+    const b = backend('http://b', () => '0x6');
+    const spy = jest.spyOn(b, 'request');
+    const provider = new FallbackProvider([a, b], { quorum: 2, quorumMethods: ['eth_call'] });
+    await expect(provider.getBlockNumber()).resolves.toBe(5);
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
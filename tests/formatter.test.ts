@@ -0,0 +1,106 @@
+import { Provider } from '../src/provider';
+import { InMemoryTransport } from '../src/transport';
+import { formatBlock, formatLog, formatReceipt, formatTransaction } from '../src/formatter';
+
+const hash = '0x' + 'ab'.repeat(32);
+const address = '0x' + '12'.repeat(20);
+const logsBloom = '0x' + '00'.repeat(256);
+
+const rawLog = {
+  address,
+  topics: [hash, '0x' + '00'.repeat(31) + '01'],
+  data: '0x0000000000000000000000000000000000000000000000000000000000000010',
+  blockNumber: '0x10',
+  blockHash: hash,
+  transactionHash: hash,
+  transactionIndex: '0x0',
+  logIndex: '0x2',
+  removed: false,
+};
+
+const rawTx = {
+  hash,
+  blockHash: hash,
+  blockNumber: '0x10',
+  transactionIndex: '0x1',
+  from: address,
+  to: null,
+  nonce: '0x7',
+  gas: '0x5208',
+  gasPrice: '0x3b9aca00',
+  value: '0xde0b6b3a7640000',
+  input: '0x60806040',
+  type: '0x0',
+  v: '0x1b',
+  r: '0x' + '01'.repeat(32),
+  s: '0x' + '02'.repeat(32),
+};
+
+describe('formatter', () => {
+  it('decodes quantities as bigint and keeps data as hex', () => {
+    const tx = formatTransaction(rawTx)!;
+    expect(tx.nonce).toBe(BigInt(7));
+    expect(tx.value).toBe(BigInt(10) ** BigInt(18));
+    expect(tx.input).toBe('0x60806040');
+    expect(tx.r).toBe(rawTx.r);
+    expect(tx.v).toBe(BigInt(27));
+    expect(tx.type).toBe(0);
+    expect(tx.to).toBeNull();
+
+    const log = formatLog(rawLog);
+    expect(log.topics).toEqual(rawLog.topics);
+    expect(log.data).toBe(rawLog.data);
+    expect(log.logIndex).toBe(BigInt(2));
+  });
+
+  it('decodes blocks with hashes or full transactions', () => {
+    const base = {
+      number: '0x10', hash, parentHash: hash, nonce: '0x0000000000000000', sha3Uncles: hash, logsBloom,
+      transactionsRoot: hash, stateRoot: hash, receiptsRoot: hash, miner: address, difficulty: '0x0',
+      extraData: '0x', size: '0x220', gasLimit: '0x1c9c380', gasUsed: '0x5208', timestamp: '0x6553f100', uncles: [],
+    };
+    const block = formatBlock({ ...base, transactions: [hash] })!;
+    expect(block.number).toBe(BigInt(16));
+    expect(block.stateRoot).toBe(hash);
+    expect(block.logsBloom).toBe(logsBloom);
+    expect(block.transactions).toEqual([hash]);
+    const full = formatBlock({ ...base, transactions: [rawTx] })!;
+    expect((full.transactions[0] as any).gas).toBe(BigInt(21000));
+    expect(formatBlock(null)).toBeNull();
+  });
+
+  it('decodes receipts including their logs and keeps unknown fields', () => {
+    const receipt = formatReceipt({
+      transactionHash: hash, transactionIndex: '0x1', blockHash: hash, blockNumber: '0x10', from: address, to: address,
+      cumulativeGasUsed: '0xa410', gasUsed: '0x5208', contractAddress: null, logs: [rawLog], logsBloom, status: '0x1',
+      l1Fee: '0x5',
+    })!;
+    expect(receipt.status).toBe(1);
+    expect(receipt.gasUsed).toBe(BigInt(21000));
+    expect(receipt.logs[0].blockNumber).toBe(BigInt(16));
+    expect(receipt.contractAddress).toBeNull();
+    expect(receipt.l1Fee).toBe('0x5');
+  });
+});
+
+describe('Provider typed results', () => {
+  const transport = new InMemoryTransport((method) => {
+    if (method === 'eth_getTransactionByHash') return rawTx;
+    if (method === 'eth_getLogs') return [rawLog];
+    return null;
+  });
+
+  it('returns typed models', async () => {
+    const provider = new Provider(transport);
+    await expect(provider.getTransactionByHash(hash)).resolves.toMatchObject({ input: '0x60806040', nonce: BigInt(7) });
+    await expect(provider.getLogs({})).resolves.toEqual([formatLog(rawLog)]);
+    await expect(provider.getTransactionReceipt(hash)).resolves.toBeNull();
+  });
+
+  it('keeps the normalizeResponse output in legacy mode', async () => {
+    const provider = new Provider(transport, { legacyFormat: true });
+    const tx = await provider.getTransactionByHash(hash);
+    expect(tx!.nonce).toBe('7');
+    expect(tx!.hash).toBe(hash);
+  });
+});
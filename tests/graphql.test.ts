@@ -149,6 +149,14 @@ describe('getAllTokens', () => {
     expect(result.tokenSummaries[1].amount).toBe('ether(0x2)');
   });
 
+  it('sends auth headers', async () => {
+    (axios.post as jest.Mock).mockResolvedValue({ data: { data: { account: { tokenSummaries: [] } } } });
+    await getAllTokens({ ...params, auth: { bearer: 'jwt' } });
+    expect(axios.post).toHaveBeenCalledWith(url, expect.any(Object), {
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer jwt' },
+    });
+  });
+
   it('should throw and log on axios error', async () => {
     const error = { message: 'fail', response: { data: 'errordata' } };
     (axios.post as jest.Mock).mockRejectedValue(error);
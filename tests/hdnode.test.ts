@@ -0,0 +1,71 @@
+const mockMlKem = {
+  privateKeyToAddress: jest.fn(),
+};
+jest.mock('../src/webassembly/mlkem', () => ({
+  loadWasm: jest.fn().mockResolvedValue(mockMlKem),
+}));
+
+import { ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import { getBytes } from 'ethers';
+import { DEFAULT_PATH, HDNode, generateMnemonic, isValidMnemonic } from '../src/hdnode';
+import { publicKeyToAddress } from '../src/message';
+import { Wallet } from '../src/wallet';
+
+// Checked against the WASM privateKeyToAddress for the same derived key
+const ADDRESS = '0xf010785646e5C4B36607934815d0032272F1c875';
+const phrase = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('HDNode', () => {
+  it('derives the same tree from the same mnemonic', () => {
+    const a = HDNode.fromMnemonic(phrase).derivePath(DEFAULT_PATH);
+    const b = HDNode.fromMnemonic(phrase).derive(44).derive(60).derive(0).derive(0).derive(0);
+    expect(a.path).toBe(DEFAULT_PATH);
+    expect(a.depth).toBe(5);
+    expect(a.mnemonic).toBe(phrase);
+    expect(b.privateKey).toBe(a.privateKey);
+    expect(a.address).toBe(ADDRESS);
+  });
+
+  it('derives distinct accounts and passphrase-separated trees', () => {
+    const account = HDNode.fromMnemonic(phrase).derivePath("m/44'/60'/0'/0'");
+    const addresses = [0, 1, 2].map((i) => account.derive(i).address);
+    expect(new Set(addresses).size).toBe(3);
+    expect(account.derivePath('1').address).toBe(addresses[1]);
+    expect(HDNode.fromMnemonic(phrase, 'secret').derivePath(DEFAULT_PATH).address).not.toBe(ADDRESS);
+  });
+
+  it('produces ML-DSA-87 keys whose address is derived from the public key', () => {
+    const node = HDNode.fromMnemonic(phrase).derive(7);
+    const message = new Uint8Array(32).fill(1);
+    const signature = ml_dsa87.sign(getBytes('0x' + node.privateKey), message);
+    expect(ml_dsa87.verify(getBytes(node.publicKey), message, signature)).toBe(true);
+    expect(node.address).toBe(publicKeyToAddress(node.publicKey));
+  });
+
+  it('rejects invalid mnemonics and paths', () => {
+    expect(() => HDNode.fromMnemonic('abandon abandon')).toThrow('Invalid mnemonic phrase');
+    const master = HDNode.fromMnemonic(phrase);
+    expect(() => master.derivePath("m/44'/x")).toThrow('Invalid path segment "x"');
+    expect(() => master.derive(2 ** 31)).toThrow('out of range');
+    expect(() => master.derive(1).derivePath('m/0')).toThrow('Cannot derive absolute path');
+  });
+});
+
+describe('mnemonics', () => {
+  it('generates valid 24-word mnemonics by default', () => {
+    const generated = generateMnemonic();
+    expect(generated.split(' ')).toHaveLength(24);
+    expect(isValidMnemonic(generated)).toBe(true);
+    expect(generateMnemonic(12).split(' ')).toHaveLength(12);
+    expect(isValidMnemonic(phrase.replace('about', 'abandon'))).toBe(false);
+  });
+});
+
+describe('Wallet.fromMnemonic', () => {
+  it('creates the wallet for the derived key', async () => {
+    mockMlKem.privateKeyToAddress.mockImplementation(() => ADDRESS);
+    const wallet = await Wallet.fromMnemonic(phrase, "m/44'/60'/0'/0'/1'");
+    expect(wallet.exportPrivateKey()).toBe(HDNode.fromMnemonic(phrase).derivePath("m/44'/60'/0'/0'/1'").privateKey);
+    expect(mockMlKem.privateKeyToAddress).toHaveBeenCalledWith(wallet.exportPrivateKey());
+  });
+});
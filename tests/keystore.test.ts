@@ -0,0 +1,66 @@
+const mockMlKem = {
+  // Reversible stand-ins for the WASM cipher; decrypting with the wrong key fails like the real one
+  symEncrypt: jest.fn(async (key: string, message: string) => ({
+    encryptedData: Buffer.from(`${key}:${message}`).toString('base64'),
+    version: 'v1',
+  })),
+  symDecrypt: jest.fn(async (key: string, encryptedData: string) => {
+    const [encKey, message] = Buffer.from(encryptedData, 'base64').toString().split(':');
+    if (encKey !== key) throw new Error('Go symDecrypt failed: message authentication failed');
+    return message;
+  }),
+  privateKeyToAddress: jest.fn((privateKey: string) => '0x' + privateKey.slice(-40)),
+};
+jest.mock('../src/webassembly/mlkem', () => ({
+  loadWasm: jest.fn().mockResolvedValue(mockMlKem),
+}));
+
+import { KeystoreError, decryptKeystore, encryptKeystore } from '../src/keystore';
+import { Wallet } from '../src/wallet';
+
+const privateKey = 'ab'.repeat(64);
+const scrypt = { N: 16, r: 8, p: 1 };
+
+describe('keystore', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('round-trips a wallet through an encrypted keystore', async () => {
+    const wallet = await Wallet.create(privateKey);
+    const json = await wallet.encrypt('correct horse', { scrypt });
+    const keystore = JSON.parse(json);
+    expect(keystore).toMatchObject({
+      version: 1,
+      address: wallet.address,
+      crypto: { kdf: 'scrypt', kdfparams: { n: 16, r: 8, p: 1, dklen: 64 }, cipher: 'mlkem-sym', cipherparams: { version: 'v1' } },
+    });
+    expect(json).not.toContain(privateKey);
+
+    const progress: number[] = [];
+    const restored = await Wallet.fromEncryptedJson(json, 'correct horse', (p) => progress.push(p));
+    expect(restored.exportPrivateKey()).toBe(privateKey);
+    expect(restored.address).toBe(wallet.address);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('uses a fresh salt for each keystore', async () => {
+    const a = JSON.parse(await encryptKeystore(mockMlKem, privateKey, 'pw', { scrypt }));
+    const b = JSON.parse(await encryptKeystore(mockMlKem, privateKey, 'pw', { scrypt }));
+    expect(a.crypto.kdfparams.salt).not.toBe(b.crypto.kdfparams.salt);
+  });
+
+  it('rejects a wrong password before decrypting', async () => {
+    const json = await encryptKeystore(mockMlKem, privateKey, 'pw', { scrypt });
+    await expect(decryptKeystore(mockMlKem, json, 'wrong')).rejects.toThrow(new KeystoreError('Invalid password'));
+    expect(mockMlKem.symDecrypt).not.toHaveBeenCalled();
+  });
+
+  it('rejects unsupported or tampered keystores', async () => {
+    const keystore = JSON.parse(await encryptKeystore(mockMlKem, privateKey, 'pw', { scrypt }));
+    await expect(decryptKeystore(mockMlKem, 'not json', 'pw')).rejects.toThrow('Keystore is not valid JSON');
+    await expect(decryptKeystore(mockMlKem, { ...keystore, version: 3 }, 'pw')).rejects.toThrow('Unsupported keystore version 3');
+    await expect(decryptKeystore(mockMlKem, { ...keystore, crypto: { ...keystore.crypto, kdf: 'pbkdf2' } }, 'pw'))
+      .rejects.toThrow('Unsupported keystore KDF pbkdf2');
+    await expect(decryptKeystore(mockMlKem, { ...keystore, address: '0x' + '00'.repeat(20) }, 'pw'))
+      .rejects.toThrow('Keystore address does not match the decrypted key');
+  });
+});
@@ -0,0 +1,87 @@
+import { ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import { concat, hexlify, keccak256, toUtf8Bytes } from 'ethers';
+
+const keys = ml_dsa87.keygen(new Uint8Array(32).fill(7));
+const publicKey = hexlify(keys.publicKey);
+const mockMlKem = {
+  privateKeyToAddress: jest.fn(),
+  signTransactionMLDSA87: jest.fn().mockReturnValue({ raw: '0xf8a1' }),
+  decodeRLPTransaction: jest.fn().mockReturnValue({
+    fields: ['', '', '01', '00'.repeat(20), '', '', 'cafe', hexlify(toUtf8Bytes(publicKey.slice(2))).slice(2)],
+    count: 8,
+  }),
+};
+jest.mock('../src/webassembly/mlkem', () => ({
+  loadWasm: jest.fn().mockResolvedValue(mockMlKem),
+}));
+
+import { Wallet } from '../src/wallet';
+import { ExtensionSigner } from '../src/extension';
+import { AbortError, TimeoutError } from '../src/transport';
+import { hashMessage, publicKeyToAddress, verifyMessage } from '../src/message';
+
+describe('hashMessage', () => {
+  it('hashes the prefixed message', () => {
+    const expected = keccak256(concat([toUtf8Bytes('\x19NCOG Signed Message:\n5'), toUtf8Bytes('hello')]));
+    expect(hashMessage('hello')).toBe(expected);
+    expect(hashMessage(toUtf8Bytes('hello'))).toBe(expected);
+  });
+});
+
+describe('message signing', () => {
+  const address = publicKeyToAddress(publicKey);
+
+  it('signs with the wallet key and verifies against the address or public key', async () => {
+    mockMlKem.privateKeyToAddress.mockReturnValue(address);
+    const wallet = await Wallet.create(hexlify(keys.secretKey).slice(2));
+    const signature = await wallet.signMessage('login challenge 42');
+
+    expect(verifyMessage('login challenge 42', signature, wallet.address)).toBe(true);
+    expect(verifyMessage('login challenge 42', signature, publicKey)).toBe(true);
+    expect(verifyMessage('login challenge 43', signature, wallet.address)).toBe(false);
+    expect(verifyMessage('login challenge 42', signature, '0x' + '11'.repeat(20))).toBe(false);
+    expect(verifyMessage('login challenge 42', '0xdead', wallet.address)).toBe(false);
+    // The public key is derived once through the WASM module and cached
+    await wallet.signMessage(new Uint8Array([1, 2, 3]));
+    expect(mockMlKem.signTransactionMLDSA87).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks the extension wallet through ncog_signMessage', async () => {
+    const injected = {
+      request: jest.fn().mockImplementation(async ({ method }) => method === 'ncog_accounts'
+        ? { selectedAccount: { accountAddress: address } }
+        : { result: '0xsigned' }),
+    };
+    const signer = new ExtensionSigner(injected, {} as any);
+    await expect(signer.signMessage('hi')).resolves.toBe('0xsigned');
+    expect(injected.request).toHaveBeenLastCalledWith({ method: 'ncog_signMessage', params: ['0x6869', address] });
+  });
+
+  it('passes extension timeouts and aborts through unchanged', async () => {
+    const injected = {
+      request: jest.fn().mockImplementation(({ method }) => method === 'ncog_accounts'
+        ? Promise.resolve({ selectedAccount: { accountAddress: address } })
+        : new Promise(() => {})),
+    };
+    const signer = new ExtensionSigner(injected, {} as any);
+    const tx = { from: address, nonce: 0, to: address, value: '0x1', gasPrice: '0x1', chainId: 1 };
+    await expect(signer.sendTransaction(tx, { timeout: 10 })).rejects.toBeInstanceOf(TimeoutError);
+    await expect(signer.signMessage('hi', { timeout: 10 })).rejects.toBeInstanceOf(TimeoutError);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(signer.sendTransaction(tx, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('wraps errors reported by the extension', async () => {
+    const injected = {
+      request: jest.fn().mockImplementation(async ({ method }) => {
+        if (method === 'ncog_accounts') return { selectedAccount: { accountAddress: address } };
+        throw new Error('User rejected the request');
+      }),
+    };
+    const signer = new ExtensionSigner(injected, {} as any);
+    const error = await signer.sendTransaction({ from: address, nonce: 0, to: address, value: '0x1', gasPrice: '0x1', chainId: 1 }).catch(e => e);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    expect(error.message).toContain('User rejected the request');
+  });
+});
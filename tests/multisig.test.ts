@@ -0,0 +1,94 @@
+const mockMlKem = {
+  privateKeyToAddress: jest.fn().mockReturnValue('0x1234567890abcdef1234567890abcdef12345678'),
+  signTransactionMLDSA87: jest.fn().mockReturnValue({ raw: '0xf8a1' }),
+};
+jest.mock('../src/webassembly/mlkem', () => ({
+  loadWasm: jest.fn().mockResolvedValue(mockMlKem),
+}));
+
+import { Interface } from 'ethers';
+import { Provider } from '../src/provider';
+import { InMemoryTransport } from '../src/transport';
+import { Wallet } from '../src/wallet';
+import { publicKeyToAddress } from '../src/message';
+import { MULTISIG_ABI, MultiSigTransaction, MultiSigWallet } from '../src/multisig';
+
+const iface = new Interface(MULTISIG_ABI);
+const multisigAddress = '0x' + '33'.repeat(20);
+const to = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+describe('MultiSigWallet', () => {
+  let owners: Wallet[];
+  let outsider: Wallet;
+  let handler: jest.Mock;
+  let provider: Provider;
+
+  beforeAll(async () => {
+    owners = await Promise.all([Wallet.createRandom(), Wallet.createRandom(), Wallet.createRandom()]);
+    outsider = await Wallet.createRandom();
+  });
+
+  beforeEach(() => {
+    const ownerAddresses = owners.map((owner) => publicKeyToAddress(owner.publicKey));
+    handler = jest.fn((method: string, params: any[]) => {
+      switch (method) {
+        case 'eth_call': {
+          const fragment = iface.getFunction(params[0].data.slice(0, 10))!;
+          const results: Record<string, any[]> = { getOwners: [ownerAddresses], threshold: [2], nonce: [7] };
+          return iface.encodeFunctionResult(fragment, results[fragment.name]);
+        }
+        case 'eth_chainId': return '0x1';
+        case 'eth_getTransactionCount': return '0x0';
+        case 'eth_gasPrice': return '0x1';
+        case 'eth_estimateGas': return '0x30000';
+        case 'eth_sendRawTransaction': return '0x' + '44'.repeat(32);
+        default: throw new Error(`unexpected ${method}`);
+      }
+    });
+    provider = new Provider(new InMemoryTransport(handler));
+  });
+
+  it('collects signatures offline through JSON bundles and submits at the threshold', async () => {
+    const multisig = new MultiSigWallet(multisigAddress, provider, outsider.connect(provider));
+    const proposal = await multisig.propose({ to, value: { nec: '2' }, data: '0x1234' });
+    expect(proposal.nonce).toBe(BigInt(7));
+    expect(proposal.threshold).toBe(2);
+
+    // Each owner signs their own copy of the bundle, without a provider
+    const first = await MultiSigTransaction.fromJSON(JSON.stringify(proposal)).sign(owners[0]);
+    const second = await MultiSigTransaction.fromJSON(JSON.stringify(proposal)).sign(owners[2]);
+    const bundle = JSON.parse(JSON.stringify(first.merge(second)));
+    expect(bundle.signatures).toHaveLength(2);
+    expect(bundle.transaction).toEqual({ to: proposal.to, value: '2000000000000000000', data: '0x1234', nonce: '7' });
+
+    const ready = MultiSigTransaction.fromJSON(bundle);
+    expect(ready.isReady).toBe(true);
+    expect(ready.digest).toBe(proposal.digest);
+    const response = await multisig.submit(ready);
+    expect(response.hash).toBe('0x' + '44'.repeat(32));
+
+    const [tx] = mockMlKem.signTransactionMLDSA87.mock.calls[mockMlKem.signTransactionMLDSA87.mock.calls.length - 1];
+    const [callTo, value, data, signatures] = iface.decodeFunctionData('execute', tx.data);
+    expect(tx.to).toBe(multisigAddress);
+    expect([callTo, value, data]).toEqual([proposal.to, BigInt('2000000000000000000'), '0x1234']);
+    expect(signatures).toEqual(ready.getSignatures());
+    expect([...ready.signers]).toEqual([...ready.signers].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1)));
+  });
+
+  it('refuses to submit below the threshold', async () => {
+    const multisig = new MultiSigWallet(multisigAddress, provider, outsider.connect(provider));
+    const proposal = await (await multisig.propose({ to })).sign(owners[1]);
+    await expect(multisig.submit(proposal)).rejects.toThrow('Multisig transaction has 1 of 2 required signatures');
+    expect(handler).not.toHaveBeenCalledWith('eth_sendRawTransaction', expect.anything());
+  });
+
+  it('rejects signatures from non-owners and tampered bundles', async () => {
+    const proposal = await new MultiSigWallet(multisigAddress, provider).propose({ to, value: 0 });
+    await expect(proposal.sign(outsider)).rejects.toThrow('is not an owner');
+
+    const bundle = (await proposal.sign(owners[0])).toJSON();
+    const tampered = { ...bundle, transaction: { ...bundle.transaction, value: '1' } };
+    expect(() => MultiSigTransaction.fromJSON(tampered)).toThrow('Invalid signature from');
+    expect(() => MultiSigTransaction.fromJSON({ ...bundle, version: 2 } as any)).toThrow('Unsupported multisig bundle version 2');
+  });
+});
@@ -0,0 +1,115 @@
+import { MemoryNonceStore, NonceManager } from '../src/nonce-manager';
+import { Contract } from '../src/contract';
+import { ContractFactory } from '../src/contract-factory';
+import { Provider } from '../src/provider';
+import { InMemoryTransport } from '../src/transport';
+import { TransactionResponse } from '../src/transaction-response';
+
+const address = '0x1234567890abcdef1234567890abcdef12345678';
+
+function mockSigner(overrides: Record<string, any> = {}): any {
+  return {
+    provider: { getTransactionCount: jest.fn().mockResolvedValue(7) },
+    getAddress: jest.fn().mockResolvedValue(address),
+    sendTransaction: jest.fn().mockImplementation(async (tx) => ({ hash: `0x${tx.nonce}` })),
+    ...overrides,
+  };
+}
+
+const tx = { from: address, to: address, value: '0', gasPrice: '0x1', gasLimit: '0x5208' };
+
+describe('NonceManager', () => {
+  it('fetches the pending nonce once and increments it across concurrent sends', async () => {
+    const signer = mockSigner();
+    const manager = new NonceManager(signer);
+    await Promise.all([manager.sendTransaction(tx), manager.sendTransaction(tx), manager.sendTransaction(tx)]);
+    expect(signer.provider.getTransactionCount).toHaveBeenCalledTimes(1);
+    expect(signer.provider.getTransactionCount).toHaveBeenCalledWith(address, 'pending', undefined);
+    expect(signer.sendTransaction.mock.calls.map((call: any[]) => call[0].nonce)).toEqual([7, 8, 9]);
+  });
+
+  it('leaves an explicit nonce alone', async () => {
+    const signer = mockSigner();
+    await new NonceManager(signer).sendTransaction({ ...tx, nonce: 3 });
+    expect(signer.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ nonce: 3 }), undefined);
+    expect(signer.provider.getTransactionCount).not.toHaveBeenCalled();
+  });
+
+  it('resynchronises with the node after a failed send and on reset()', async () => {
+    const signer = mockSigner({
+      sendTransaction: jest.fn().mockRejectedValueOnce(new Error('nonce too low')).mockResolvedValue({ hash: '0x1' }),
+    });
+    signer.provider.getTransactionCount.mockResolvedValueOnce(7).mockResolvedValueOnce(10).mockResolvedValue(20);
+    const manager = new NonceManager(signer);
+    await expect(manager.sendTransaction(tx)).rejects.toThrow('nonce too low');
+    await manager.sendTransaction(tx);
+    expect(signer.sendTransaction.mock.calls[1][0].nonce).toBe(10);
+    await manager.reset();
+    await expect(manager.getNonce()).resolves.toBe(BigInt(20));
+  });
+
+  it('waits for sends in flight before resynchronising after a failure', async () => {
+    let release: () => void = () => undefined;
+    const held = new Promise<void>(res => { release = res; });
+    const signer = mockSigner({
+      sendTransaction: jest.fn().mockImplementation(async (t) => {
+        if (t.nonce === 7) throw new Error('nonce too low');
+        if (t.nonce === 8) await held;
+        return { hash: `0x${t.nonce}` };
+      }),
+    });
+    signer.provider.getTransactionCount.mockResolvedValueOnce(7).mockResolvedValue(8);
+    const manager = new NonceManager(signer);
+
+    const failed = manager.sendTransaction(tx);
+    const inFlight = manager.sendTransaction(tx);
+    await expect(failed).rejects.toThrow('nonce too low');
+    await manager.sendTransaction(tx);
+    release();
+    await inFlight;
+    await manager.sendTransaction(tx);
+    expect(signer.sendTransaction.mock.calls.map((call: any[]) => call[0].nonce)).toEqual([7, 8, 9, 8]);
+    expect(signer.provider.getTransactionCount).toHaveBeenCalledTimes(2);
+  });
+
+  it('assigns the nonces of concurrent contract calls and deployments', async () => {
+    const contractAddress = '0x' + '33'.repeat(20);
+    const provider = new Provider(new InMemoryTransport((method) => {
+      switch (method) {
+        case 'eth_getTransactionCount': return '0x5';
+        case 'eth_chainId': return '0x1';
+        case 'eth_gasPrice': return '0x1';
+        case 'eth_estimateGas': return '0x5208';
+        case 'eth_getTransactionReceipt': return {
+          transactionHash: '0x' + '44'.repeat(32), transactionIndex: '0x0', blockHash: '0x' + '55'.repeat(32), blockNumber: '0x1',
+          from: address, to: null, cumulativeGasUsed: '0x5208', gasUsed: '0x5208', contractAddress, logs: [],
+          logsBloom: '0x' + '00'.repeat(256), status: '0x1',
+        };
+        default: throw new Error(`unexpected ${method}`);
+      }
+    }));
+    const signer = mockSigner({
+      provider,
+      sendTransaction: jest.fn().mockImplementation(async () => new TransactionResponse('0x' + '44'.repeat(32), provider)),
+    });
+    const manager = new NonceManager(signer);
+    const abi = ['function ping()'];
+    const contract = new Contract(contractAddress, abi, provider, manager);
+    await Promise.all([
+      contract.send('ping', [], {}),
+      contract.send('ping', [], {}),
+      manager.sendTransaction(tx),
+      new ContractFactory(abi, '0x6080', provider, manager).deploy(),
+    ]);
+    const nonces = signer.sendTransaction.mock.calls.map((call: any[]) => call[0].nonce);
+    expect(nonces.sort()).toEqual([5, 6, 7, 8]);
+  });
+
+  it('shares nonces between managers using the same store', async () => {
+    const store = new MemoryNonceStore();
+    const a = new NonceManager(mockSigner(), { store });
+    const b = new NonceManager(mockSigner(), { store });
+    await expect(a.getNonce()).resolves.toBe(BigInt(7));
+    await expect(b.getNonce()).resolves.toBe(BigInt(8));
+  });
+});
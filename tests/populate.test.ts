@@ -0,0 +1,55 @@
+import { populateTransaction } from '../src/populate';
+import { AbortError } from '../src/transport';
+
+function mockProvider(overrides: Record<string, any> = {}): any {
+  return {
+    getTransactionCount: jest.fn().mockResolvedValue(4),
+    getChainId: jest.fn().mockResolvedValue(1),
+    getGasPrice: jest.fn().mockResolvedValue(1000000000),
+    estimateGas: jest.fn().mockResolvedValue(50000),
+    ...overrides,
+  };
+}
+
+const from = '0x1234567890abcdef1234567890abcdef12345678';
+
+describe('populateTransaction', () => {
+  it('fills missing nonce, chainId, gas price and gas limit without modifying the input', async () => {
+    const provider = mockProvider();
+    const tx = { from, to: from, value: { nec: '1' }, data: '0x' };
+    await expect(populateTransaction(provider, tx)).resolves.toEqual({
+      ...tx, nonce: 4, chainId: 1, gasPrice: 1000000000, gasLimit: 60000,
+    });
+    expect(tx).not.toHaveProperty('nonce');
+    expect(provider.getTransactionCount).toHaveBeenCalledWith(from, 'pending', undefined);
+    expect(provider.estimateGas).toHaveBeenCalledWith(expect.objectContaining({ value: '0xde0b6b3a7640000' }), undefined);
+  });
+
+  it('keeps fields that are already set', async () => {
+    const provider = mockProvider();
+    const tx = { from, nonce: 0, chainId: 9, gasPrice: '0x1', gas: '0x5208' };
+    await expect(populateTransaction(provider, tx)).resolves.toEqual(tx);
+    expect(provider.getTransactionCount).not.toHaveBeenCalled();
+    expect(provider.estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('applies the gas multiplier and caps', async () => {
+    const provider = mockProvider({ getGasPrice: jest.fn().mockResolvedValue(BigInt('5000000000000000000000')) });
+    const tx = await populateTransaction(provider, { from }, { gasMultiplier: 1.5, maxGasLimit: 70000, maxGasPrice: 2000000000 });
+    expect(tx.gasLimit).toBe(70000);
+    expect(tx.gasPrice).toBe(2000000000);
+    await expect(populateTransaction(provider, { from }, { maxGasLimit: 40000 })).rejects.toThrow('Estimated gas 50000 exceeds maxGasLimit 40000');
+  });
+
+  it('uses fallbackGasLimit only when estimation fails for a reason other than abort', async () => {
+    const failing = mockProvider({ estimateGas: jest.fn().mockRejectedValue(new Error('execution reverted')) });
+    await expect(populateTransaction(failing, { from }, { fallbackGasLimit: 7000000 })).resolves.toHaveProperty('gasLimit', 7000000);
+    await expect(populateTransaction(failing, { from })).rejects.toThrow('execution reverted');
+    const aborted = mockProvider({ estimateGas: jest.fn().mockRejectedValue(new AbortError()) });
+    await expect(populateTransaction(aborted, { from }, { fallbackGasLimit: 7000000 })).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('requires a from address to look up the nonce', async () => {
+    await expect(populateTransaction(mockProvider(), { to: from })).rejects.toThrow('transaction has no from address');
+  });
+});
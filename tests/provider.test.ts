@@ -23,7 +23,7 @@ describe('Provider', () => {
     mockedAxios.post.mockResolvedValue({ data: { result: '0x1' } });
     const result = await provider.callRpc('eth_chainId');
     expect(result).toBe(1);
-    expect(mockedAxios.post).toHaveBeenCalledWith(url, expect.any(Object));
+    expect(mockedAxios.post).toHaveBeenCalledWith(url, expect.any(Object), expect.any(Object));
   });
 
   it('should throw RpcError on JSON-RPC error', async () => {
@@ -90,6 +90,7 @@ describe('Provider', () => {
 
   it('should call all public RPC methods', async () => {
     mockedAxios.post.mockResolvedValue({ data: { result: '0x1' } });
+    const legacy = new Provider(url, { legacyFormat: true });
     await expect(provider.clientVersion()).resolves.toBe(1);
     await expect(provider.netVersion()).resolves.toBe(1);
     await expect(provider.listening()).resolves.toBe(1);
@@ -107,17 +108,17 @@ describe('Provider', () => {
     await expect(provider.getTransactionCount('0xabc')).resolves.toBe(1);
     await expect(provider.getBlockTransactionCountByNumber('latest')).resolves.toBe(1);
     await expect(provider.getCode('0xabc')).resolves.toBe(1);
-    await expect(provider.getBlockByNumber('latest')).resolves.toBe(1);
-    await expect(provider.getBlockByHash('0xhash')).resolves.toBe(1);
+    await expect(legacy.getBlockByNumber('latest')).resolves.toBe(1);
+    await expect(legacy.getBlockByHash('0xhash')).resolves.toBe(1);
     await expect(provider.sign('0xabc', '0xdata')).resolves.toBe(1);
     await expect(provider.signTransaction({})).resolves.toBe(1);
     await expect(provider.sendTransaction({})).resolves.toBe(1);
     await expect(provider.sendRawTransaction('0xsigned')).resolves.toBe(1);
     await expect(provider.call({ to: '0xabc' })).resolves.toBe(1);
     await expect(provider.estimateGas({})).resolves.toBe(1);
-    await expect(provider.getTransactionByHash('0xhash')).resolves.toBe(1);
-    await expect(provider.getTransactionReceipt('0xhash')).resolves.toBe(1);
-    await expect(provider.getLogs({})).resolves.toBe(1);
+    await expect(legacy.getTransactionByHash('0xhash')).resolves.toBe(1);
+    await expect(legacy.getTransactionReceipt('0xhash')).resolves.toBe(1);
+    await expect(legacy.getLogs({})).resolves.toBe(1);
     await expect(provider.submitWork('0x1', '0x2', '0x3')).resolves.toBe(1);
     await expect(provider.getWork()).resolves.toBe(1);
     await expect(provider.newAccount('pw')).resolves.toBe(1);
@@ -129,6 +130,19 @@ describe('Provider', () => {
     await expect(provider.sendPersonalTransaction({}, 'pw')).resolves.toBe(1);
   });
 
+  it('returns exact bigint quantities in bigint mode', async () => {
+    const big = '0x20000000000001';
+    mockedAxios.post.mockResolvedValue({ data: { result: big } });
+    const exact = new Provider(url, { numeric: 'bigint' });
+    await expect(exact.getBlockNumber()).resolves.toBe(BigInt(big));
+    await expect(exact.getGasPrice()).resolves.toBe(BigInt(big));
+    await expect(exact.estimateGas({})).resolves.toBe(BigInt(big));
+    await expect(exact.getBalanceWei('0xabc')).resolves.toBe(BigInt(big));
+    await expect(exact.getBalance('0xabc')).resolves.toBe(BigInt(big));
+    await expect(provider.getBalanceWei('0xabc')).resolves.toBe(BigInt(big));
+    await expect(provider.getBlockNumber()).resolves.toBe('9007199254740993');
+  });
+
   it('should throw error from response middleware in rpc', async () => {
     const resMw = jest.fn().mockImplementation(() => { throw new Error('mw error'); });
     provider.useResponse(resMw);
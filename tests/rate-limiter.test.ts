@@ -0,0 +1,95 @@
+import { Provider } from '../src/provider';
+import { AbortError, InMemoryTransport, Transport, TransportError } from '../src/transport';
+import { RateLimitedTransport, parseRetryAfter } from '../src/rate-limiter';
+
+function deferredTransport() {
+  const pending: (() => void)[] = [];
+  const transport: Transport = {
+    request: jest.fn((payload) => new Promise((resolve) => pending.push(() => resolve({ id: payload.id, result: '0x1' })))),
+  };
+  return { transport, pending };
+}
+
+describe('RateLimitedTransport', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('spaces requests according to the token bucket', async () => {
+    jest.useFakeTimers();
+    const inner = new InMemoryTransport(() => '0x1');
+    jest.spyOn(inner, 'request');
+    const limited = new RateLimitedTransport(inner, { requestsPerSecond: 2, burst: 1 });
+    const done = [1, 2, 3].map(id => limited.request({ id }));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(inner.request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(inner.request).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(inner.request).toHaveBeenCalledTimes(3);
+    await Promise.all(done);
+  });
+
+  it('caps the number of requests in flight', async () => {
+    const { transport, pending } = deferredTransport();
+    const limited = new RateLimitedTransport(transport, { maxConcurrency: 2 });
+    const done = [1, 2, 3].map(id => limited.request({ id }));
+    await Promise.resolve();
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    expect(limited.pending).toBe(1);
+    pending.shift()!();
+    await new Promise(res => setImmediate(res));
+    expect(transport.request).toHaveBeenCalledTimes(3);
+    pending.forEach(finish => finish());
+    await expect(Promise.all(done)).resolves.toHaveLength(3);
+  });
+
+  it('waits for Retry-After on 429 and queues the request again', async () => {
+    jest.useFakeTimers();
+    const transport: Transport = {
+      request: jest.fn()
+        .mockRejectedValueOnce(new TransportError('Too Many Requests', 429, { 'retry-after': '2' }))
+        .mockResolvedValue({ id: 1, result: '0x1' }),
+    };
+    const limited = new RateLimitedTransport(transport);
+    const done = limited.request({ id: 1 });
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(done).resolves.toEqual({ id: 1, result: '0x1' });
+  });
+
+  it('gives up after maxRateLimitRetries and passes other errors through', async () => {
+    const throttled = new TransportError('Too Many Requests', 429, { 'retry-after': '0' });
+    const transport: Transport = { request: jest.fn().mockRejectedValue(throttled) };
+    await expect(new RateLimitedTransport(transport, { maxRateLimitRetries: 2 }).request({})).rejects.toBe(throttled);
+    expect(transport.request).toHaveBeenCalledTimes(3);
+
+    const failing: Transport = { request: jest.fn().mockRejectedValue(new TransportError('down', 503)) };
+    await expect(new RateLimitedTransport(failing).request({})).rejects.toThrow('down');
+    expect(failing.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops queued requests that are aborted', async () => {
+    const { transport } = deferredTransport();
+    const limited = new RateLimitedTransport(transport, { maxConcurrency: 1 });
+    limited.request({ id: 1 });
+    const controller = new AbortController();
+    const queued = limited.request({ id: 2 }, { signal: controller.signal });
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(AbortError);
+    expect(limited.pending).toBe(0);
+  });
+
+  it('parses Retry-After seconds and dates', () => {
+    expect(parseRetryAfter({ 'retry-after': '3' })).toBe(3000);
+    expect(parseRetryAfter({ 'retry-after': new Date(Date.now() + 60000).toUTCString() })).toBeGreaterThan(50000);
+    expect(parseRetryAfter({})).toBeUndefined();
+  });
+
+  it('is enabled through the provider rateLimit option', async () => {
+    const provider = new Provider(new InMemoryTransport(() => '0x7', 'mem://node'), { rateLimit: { maxConcurrency: 1 } });
+    expect((provider as any).transport).toBeInstanceOf(RateLimitedTransport);
+    await expect(provider.getChainId()).resolves.toBe(7);
+  });
+});
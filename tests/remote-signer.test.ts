@@ -0,0 +1,98 @@
+import { ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import { hexlify, keccak256, toUtf8Bytes } from 'ethers';
+
+const keys = ml_dsa87.keygen(new Uint8Array(32).fill(9));
+const publicKey = hexlify(keys.publicKey);
+const mockMlKem = {
+  privateKeyToAddress: jest.fn(),
+  signTransactionMLDSA87: jest.fn().mockReturnValue({ raw: '0xf8a1' }),
+  decodeRLPTransaction: jest.fn().mockReturnValue({
+    fields: ['', '', '01', '00'.repeat(20), '', '', 'cafe', hexlify(toUtf8Bytes(publicKey.slice(2))).slice(2)],
+    count: 8,
+  }),
+};
+jest.mock('../src/webassembly/mlkem', () => ({
+  loadWasm: jest.fn().mockResolvedValue(mockMlKem),
+}));
+
+import { Provider, RpcError } from '../src/provider';
+import { InMemoryTransport } from '../src/transport';
+import { Wallet } from '../src/wallet';
+import { AbstractSigner } from '../src/abstract-signer';
+import { RemoteSigner, createSigningService } from '../src/remote-signer';
+import { publicKeyToAddress, verifyMessage } from '../src/message';
+import { verifyTypedData } from '../src/typed-data';
+import { TransactionResponse } from '../src/transaction-response';
+
+const address = publicKeyToAddress(publicKey);
+const to = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+function node() {
+  const handler = jest.fn((method: string) => {
+    switch (method) {
+      case 'eth_getTransactionCount': return '0x3';
+      case 'eth_chainId': return '0x1';
+      case 'eth_gasPrice': return '0x3b9aca00';
+      case 'eth_estimateGas': return '0x5208';
+      case 'eth_sendRawTransaction': return '0x' + '22'.repeat(32);
+      default: throw new Error(`unexpected ${method}`);
+    }
+  });
+  return { handler, provider: new Provider(new InMemoryTransport(handler)) };
+}
+
+describe('RemoteSigner', () => {
+  let service: jest.Mock;
+  let wallet: Wallet;
+
+  beforeEach(async () => {
+    mockMlKem.privateKeyToAddress.mockReturnValue(address);
+    wallet = await Wallet.create(hexlify(keys.secretKey));
+    service = jest.fn(createSigningService(wallet));
+  });
+
+  it('populates locally, signs remotely and broadcasts', async () => {
+    const { handler, provider } = node();
+    const signer = new RemoteSigner(provider, new InMemoryTransport(service));
+    expect(signer).toBeInstanceOf(AbstractSigner);
+
+    const response = await signer.sendTransaction({ to, value: { nec: '1' } });
+    expect(response).toBeInstanceOf(TransactionResponse);
+    expect(response.from).toBe(address);
+    expect(response.nonce).toBe(BigInt(3));
+    expect(service).toHaveBeenCalledWith('signer_signTransaction', [expect.objectContaining({
+      from: address, to, nonce: '0x3', chainId: '0x1', value: '0xde0b6b3a7640000',
+    })]);
+    expect(mockMlKem.signTransactionMLDSA87).toHaveBeenCalledWith(expect.objectContaining({ nonce: 3, chainId: 1 }), expect.any(String));
+    expect(handler).toHaveBeenCalledWith('eth_sendRawTransaction', ['0xf8a1']);
+  });
+
+  it('returns the raw transaction and hash without sending', async () => {
+    const signer = new RemoteSigner(node().provider, new InMemoryTransport(service), { address });
+    const tx = { from: address, to, nonce: 0, chainId: 1, gasPrice: '0x1', gasLimit: '0x5208', value: 0 };
+    await expect(signer.signTransaction(tx)).resolves.toEqual({ raw: '0xf8a1', hash: keccak256('0xf8a1') });
+    expect(service).not.toHaveBeenCalledWith('signer_getAddress', []);
+  });
+
+  it('signs messages and typed data that verify against the address', async () => {
+    const signer = new RemoteSigner(node().provider, new InMemoryTransport(service));
+    await expect(signer.getAddress()).resolves.toBe(address);
+    expect(verifyMessage('hello', await signer.signMessage('hello'), address)).toBe(true);
+
+    const domain = { name: 'Test', chainId: 1 };
+    const types = { Mail: [{ name: 'contents', type: 'string' }] };
+    const signature = await signer.signTypedData(domain, types, { contents: 'hi' });
+    expect(verifyTypedData(domain, types, { contents: 'hi' }, signature, address)).toBe(true);
+    expect(service.mock.calls.filter(([method]) => method === 'signer_getAddress')).toHaveLength(1);
+  });
+
+  it('surfaces service errors as RpcError', async () => {
+    const signer = new RemoteSigner(node().provider, new InMemoryTransport(service), { address: to });
+    await expect(signer.signMessage('hello')).rejects.toThrow(RpcError);
+    await expect(signer.signMessage('hello')).rejects.toThrow('Unknown account');
+
+    const broken = new RemoteSigner(node().provider, new InMemoryTransport(() => ({ raw: 'nope' })), { address });
+    await expect(broken.signTransaction({ from: address, to, nonce: 0, chainId: 1, gasPrice: '0x1', value: 0 }))
+      .rejects.toThrow('Signing service returned an invalid transaction');
+  });
+});
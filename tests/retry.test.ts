@@ -0,0 +1,97 @@
+import { Provider, RpcError } from '../src/provider';
+import { AbortError, InMemoryTransport, TransportError } from '../src/transport';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, withRetry } from '../src/retry';
+
+const fast = { initialDelay: 1, maxDelay: 2, jitter: 0 };
+
+describe('retry helpers', () => {
+  it('classifies retryable errors', () => {
+    expect(isRetryableError(new TransportError('reset'), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(new TransportError('busy', 503), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(new TransportError('bad request', 400), DEFAULT_RETRY_POLICY)).toBe(false);
+    expect(isRetryableError(new RpcError('limit exceeded', -32005), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(new RpcError('execution reverted', 3), DEFAULT_RETRY_POLICY)).toBe(false);
+    expect(isRetryableError(new Error('boom'), DEFAULT_RETRY_POLICY)).toBe(false);
+  });
+
+  it('backs off exponentially up to maxDelay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 100, maxDelay: 300, jitter: 0 };
+    expect(getRetryDelay(1, policy)).toBe(100);
+    expect(getRetryDelay(2, policy)).toBe(200);
+    expect(getRetryDelay(3, policy)).toBe(300);
+  });
+
+  it('keeps jitter within bounds', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 100, jitter: 0.5 };
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(1, policy);
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(150);
+    }
+  });
+
+  it('stops after maxAttempts and rethrows the last error', async () => {
+    const fn = jest.fn().mockRejectedValue(new TransportError('down', 502));
+    await expect(withRetry(fn, { ...DEFAULT_RETRY_POLICY, ...fast, maxAttempts: 4 })).rejects.toThrow('down');
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('Provider retries', () => {
+  function flakyTransport(failures: number, error: () => any = () => new TransportError('unavailable', 503)) {
+    const handler = jest.fn();
+    const transport = new InMemoryTransport(handler);
+    let remaining = failures;
+    const request = transport.request.bind(transport);
+    transport.request = jest.fn(async (payload: any) => {
+      if (remaining-- > 0) throw error();
+      return request(payload);
+    });
+    handler.mockReturnValue('0x64');
+    return transport;
+  }
+
+  it('does not retry by default', async () => {
+    const transport = flakyTransport(1);
+    const provider = new Provider(transport);
+    await expect(provider.getBlockNumber()).rejects.toThrow('RPC request failed for method "eth_blockNumber": unavailable');
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient failures when enabled', async () => {
+    const transport = flakyTransport(2);
+    const provider = new Provider(transport, { retry: fast });
+    await expect(provider.getBlockNumber()).resolves.toBe(100);
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('never retries non-idempotent methods by default', async () => {
+    const transport = flakyTransport(1);
+    const provider = new Provider(transport, { retry: fast });
+    await expect(provider.sendRawTransaction('0xsigned')).rejects.toThrow('unavailable');
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies per-method policies', async () => {
+    const transport = flakyTransport(4, () => ({ code: -32005, message: 'limit' }));
+    const provider = new Provider(transport, {
+      retry: fast,
+      retryPolicies: { eth_getTransactionReceipt: { maxAttempts: 5 } },
+    });
+    await expect(provider.callRpc('eth_getTransactionReceipt', ['0xhash'])).resolves.toBe(100);
+    expect(transport.request).toHaveBeenCalledTimes(5);
+    provider.setRetryPolicy('eth_sendRawTransaction', { maxAttempts: 2 });
+    expect(provider.getRetryPolicy('eth_sendRawTransaction').maxAttempts).toBe(2);
+  });
+
+  it('stops retrying once the call is aborted', async () => {
+    const transport = flakyTransport(5);
+    const provider = new Provider(transport, { retry: { maxAttempts: 5, initialDelay: 1000, jitter: 0 } });
+    const controller = new AbortController();
+    const promise = provider.getBlockNumber({ signal: controller.signal });
+    await new Promise(res => setTimeout(res, 10));
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,61 @@
+const mockMlKem = {
+  decodeRLPTransaction: jest.fn(),
+};
+jest.mock('../src/webassembly/mlkem', () => ({
+  loadWasm: jest.fn().mockResolvedValue(mockMlKem),
+}));
+
+import { Provider } from '../src/provider';
+import { InMemoryTransport } from '../src/transport';
+import { InvalidTransactionError, decodeSignedTransaction } from '../src/signed-transaction';
+import { TransactionResponse } from '../src/transaction-response';
+
+const publicKeyHex = 'ab'.repeat(4);
+const fields = [
+  '05', '3b9aca00', '5208', 'abcdefabcdefabcdefabcdefabcdefabcdefabcd', '0de0b6b3a7640000', '', 'cafe',
+  Buffer.from(publicKeyHex, 'ascii').toString('hex'),
+];
+
+describe('decodeSignedTransaction', () => {
+  it('decodes the RLP fields', () => {
+    mockMlKem.decodeRLPTransaction.mockReturnValue({ fields, count: 8 });
+    expect(decodeSignedTransaction(mockMlKem, '0xf8a1')).toEqual({
+      nonce: BigInt(5),
+      gasPrice: BigInt(1000000000),
+      gasLimit: BigInt(21000),
+      to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+      value: BigInt('1000000000000000000'),
+      data: '0x',
+      signature: '0xcafe',
+      publicKey: '0x' + publicKeyHex,
+    });
+  });
+
+  it('rejects malformed and unsigned transactions', () => {
+    expect(() => decodeSignedTransaction(mockMlKem, 'not hex')).toThrow(InvalidTransactionError);
+    mockMlKem.decodeRLPTransaction.mockImplementation(() => { throw new Error('rlp: too short'); });
+    expect(() => decodeSignedTransaction(mockMlKem, '0x01')).toThrow('Could not decode raw transaction: rlp: too short');
+    mockMlKem.decodeRLPTransaction.mockReset().mockReturnValue({ fields: fields.slice(0, 6), count: 6 });
+    expect(() => decodeSignedTransaction(mockMlKem, '0x01')).toThrow('must have 8 RLP fields');
+    mockMlKem.decodeRLPTransaction.mockReturnValue({ fields: [...fields.slice(0, 6), '', ''], count: 8 });
+    expect(() => decodeSignedTransaction(mockMlKem, '0x01')).toThrow('not signed');
+  });
+});
+
+describe('Provider.broadcast', () => {
+  it('validates the raw transaction before sending it', async () => {
+    const handler = jest.fn().mockReturnValue('0x' + '11'.repeat(32));
+    const provider = new Provider(new InMemoryTransport(handler));
+
+    mockMlKem.decodeRLPTransaction.mockReset().mockReturnValue({ fields, count: 8 });
+    const response = await provider.broadcast('0xf8a1');
+    expect(response).toBeInstanceOf(TransactionResponse);
+    expect(response.hash).toBe('0x' + '11'.repeat(32));
+    expect(response.nonce).toBe(BigInt(5));
+    expect(handler).toHaveBeenCalledWith('eth_sendRawTransaction', ['0xf8a1']);
+
+    mockMlKem.decodeRLPTransaction.mockReturnValue({ fields: [], count: 0 });
+    await expect(provider.broadcast('0xf8a1')).rejects.toBeInstanceOf(InvalidTransactionError);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
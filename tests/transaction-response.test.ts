@@ -0,0 +1,135 @@
+import {
+  TransactionDroppedError,
+  TransactionReplacedError,
+  TransactionResponse,
+  TransactionRevertedError,
+} from '../src/transaction-response';
+import { InMemoryTransport, TimeoutError } from '../src/transport';
+import { Provider } from '../src/provider';
+
+const hash = '0xabc';
+const receipt = (status: number, blockNumber = 10) => ({ transactionHash: hash, blockNumber: BigInt(blockNumber), status });
+
+function mockProvider(overrides: Record<string, any> = {}): any {
+  return {
+    pollingInterval: 1000,
+    getSubscription: jest.fn(),
+    getFormattedReceipt: jest.fn().mockResolvedValue(null),
+    getFormattedTransaction: jest.fn().mockResolvedValue(null),
+    getTransactionCount: jest.fn().mockResolvedValue(0),
+    getBlockNumber: jest.fn().mockResolvedValue(10),
+    ...overrides,
+  };
+}
+
+describe('TransactionResponse', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resolves with the receipt once mined', async () => {
+    jest.useFakeTimers();
+    const provider = mockProvider({
+      getFormattedReceipt: jest.fn().mockResolvedValueOnce(null).mockResolvedValue(receipt(1)),
+    });
+    const done = new TransactionResponse(hash, provider).wait();
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(done).resolves.toEqual(receipt(1));
+  });
+
+  it('waits for the requested confirmations', async () => {
+    jest.useFakeTimers();
+    const provider = mockProvider({
+      getFormattedReceipt: jest.fn().mockResolvedValue(receipt(1, 10)),
+      getBlockNumber: jest.fn().mockResolvedValueOnce(10).mockResolvedValue(12),
+    });
+    const done = new TransactionResponse(hash, provider).wait(3);
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(done).resolves.toEqual(receipt(1, 10));
+    expect(provider.getBlockNumber).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects with TransactionRevertedError when status is 0', async () => {
+    const provider = mockProvider({ getFormattedReceipt: jest.fn().mockResolvedValue(receipt(0)) });
+    const error = await new TransactionResponse(hash, provider).wait().catch(e => e);
+    expect(error).toBeInstanceOf(TransactionRevertedError);
+    expect(error.receipt).toEqual(receipt(0));
+  });
+
+  it('reads typed receipts from a provider in legacy format', async () => {
+    const raw = (status: string) => ({
+      transactionHash: hash, transactionIndex: '0x0', blockHash: '0x' + 'ab'.repeat(32), blockNumber: '0x10',
+      from: '0x' + '12'.repeat(20), to: null, cumulativeGasUsed: '0x5208', gasUsed: '0x5208', contractAddress: null,
+      logs: [], logsBloom: '0x' + '00'.repeat(256), status,
+    });
+    let polls = 0;
+    const legacy = (status: string) => new Provider(new InMemoryTransport((method) => {
+      if (method === 'eth_getTransactionReceipt') return ++polls > 1 ? raw(status) : null;
+      return null;
+    }), { legacyFormat: true, pollingInterval: 5 });
+
+    const mined = await new TransactionResponse(hash, legacy('0x1')).wait();
+    expect(mined).toMatchObject({ transactionHash: hash, blockNumber: BigInt(16), status: 1 });
+    polls = 0;
+    await expect(new TransactionResponse(hash, legacy('0x0')).wait()).rejects.toBeInstanceOf(TransactionRevertedError);
+  });
+
+  it('detects a replacement through the sender nonce', async () => {
+    const provider = mockProvider({ getTransactionCount: jest.fn().mockResolvedValue(6) });
+    const error = await new TransactionResponse(hash, provider, { from: '0xfrom', nonce: BigInt(5) }).wait().catch(e => e);
+    expect(error).toBeInstanceOf(TransactionReplacedError);
+    expect(error.nonce).toBe(BigInt(5));
+    expect(provider.getTransactionCount).toHaveBeenCalledWith('0xfrom', 'latest');
+  });
+
+  it('resolves with the receipt of a replaced transaction that was mined instead', async () => {
+    const original = { ...receipt(1), transactionHash: '0xold' };
+    const provider = mockProvider({
+      getFormattedReceipt: jest.fn((h: string) => Promise.resolve(h === '0xold' ? original : null)),
+      getTransactionCount: jest.fn().mockResolvedValue(6),
+    });
+    const replacement = new TransactionResponse(hash, provider, { from: '0xfrom', nonce: BigInt(5), replaces: ['0xold'] });
+    await expect(replacement.wait()).resolves.toEqual(original);
+  });
+
+  it('detects a transaction dropped from the mempool', async () => {
+    jest.useFakeTimers();
+    const provider = mockProvider({
+      getFormattedTransaction: jest.fn().mockResolvedValueOnce({ hash, from: '0xfrom' }).mockResolvedValue(null),
+    });
+    const done = new TransactionResponse(hash, provider).wait();
+    const assertion = expect(done).rejects.toBeInstanceOf(TransactionDroppedError);
+    await jest.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it('rejects with TimeoutError after the timeout', async () => {
+    jest.useFakeTimers();
+    const done = new TransactionResponse(hash, mockProvider()).wait(1, 2500);
+    const assertion = expect(done).rejects.toBeInstanceOf(TimeoutError);
+    await jest.advanceTimersByTimeAsync(2500);
+    await assertion;
+  });
+
+  it('follows newHeads when the provider has a WebSocket subscription', async () => {
+    let onHead: () => void = () => undefined;
+    const subscription = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn().mockImplementation((_type, _params, handler) => {
+        onHead = handler;
+        return Promise.resolve('0xsub');
+      }),
+      unsubscribe: jest.fn().mockResolvedValue(true),
+    };
+    const provider = mockProvider({
+      getSubscription: jest.fn().mockReturnValue(subscription),
+      getFormattedReceipt: jest.fn().mockResolvedValueOnce(null).mockResolvedValue(receipt(1)),
+    });
+    const done = new TransactionResponse(hash, provider).wait();
+    await new Promise(res => setImmediate(res));
+    expect(subscription.subscribe).toHaveBeenCalledWith('newHeads', [], expect.any(Function));
+    onHead();
+    await expect(done).resolves.toEqual(receipt(1));
+    expect(subscription.unsubscribe).toHaveBeenCalledWith('0xsub');
+  });
+});
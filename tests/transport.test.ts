@@ -0,0 +1,200 @@
+import os from 'os';
+import path from 'path';
+import net from 'net';
+import axios, { AxiosError } from 'axios';
+import { Provider, RpcError } from '../src/provider';
+import { AbortError, HttpTransport, InMemoryTransport, TimeoutError, TransportError, WebSocketTransport, withDeadline } from '../src/transport';
+import { IpcTransport } from '../src/ipc-transport';
+import { Subscription } from '../src/subscription';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('HttpTransport', () => {
+  const url = 'http://localhost:8545';
+
+  beforeEach(() => {
+    mockedAxios.post.mockReset();
+  });
+
+  it('posts the payload and returns the response body', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { id: 1, result: '0x1' } });
+    const transport = new HttpTransport(url);
+    await expect(transport.request({ id: 1, method: 'eth_chainId' })).resolves.toEqual({ id: 1, result: '0x1' });
+    expect(mockedAxios.post).toHaveBeenCalledWith(url, { id: 1, method: 'eth_chainId' }, { timeout: undefined, signal: undefined });
+  });
+
+  it('wraps axios errors in a TransportError', async () => {
+    const error = new AxiosError('Request failed');
+    error.message = 'Request failed';
+    mockedAxios.post.mockRejectedValue(error);
+    await expect(new HttpTransport(url).request({})).rejects.toBeInstanceOf(TransportError);
+  });
+
+  it('passes the timeout to axios and reports timeouts as TimeoutError', async () => {
+    const error = new AxiosError('timeout of 50ms exceeded');
+    error.code = 'ECONNABORTED';
+    mockedAxios.post.mockRejectedValue(error);
+    await expect(new HttpTransport(url).request({}, { timeout: 50 })).rejects.toBeInstanceOf(TimeoutError);
+    expect(mockedAxios.post).toHaveBeenCalledWith(url, {}, { timeout: 50, signal: undefined });
+  });
+});
+
+describe('withDeadline', () => {
+  const never = () => new Promise<never>(() => {});
+
+  it('rejects with a TimeoutError once the timeout elapses', async () => {
+    await expect(withDeadline(never(), { timeout: 10 })).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('rejects with an AbortError when the signal fires', async () => {
+    const controller = new AbortController();
+    const promise = withDeadline(never(), { signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    await expect(withDeadline(Promise.resolve(1), { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('passes results through', async () => {
+    await expect(withDeadline(Promise.resolve(1), { timeout: 1000 })).resolves.toBe(1);
+  });
+});
+
+describe('InMemoryTransport', () => {
+  it('serves a Provider without any network', async () => {
+    const transport = new InMemoryTransport((method) => {
+      if (method === 'eth_chainId') return '0x2a';
+      throw Object.assign(new Error('method not found'), { code: -32601 });
+    });
+    const provider = new Provider(transport);
+    await expect(provider.getChainId()).resolves.toBe(42);
+    await expect(provider.callRpc('eth_foo')).rejects.toBeInstanceOf(RpcError);
+  });
+
+  it('answers batches in order', async () => {
+    const transport = new InMemoryTransport((method, params) => params[0]);
+    const provider = new Provider(transport);
+    const results = await provider.batchRpc([
+      { method: 'echo', params: ['0x1'] },
+      { method: 'echo', params: ['0x2'] },
+    ]);
+    expect(results).toEqual([1, 2]);
+  });
+
+  it('applies the provider timeout unless a call overrides it', async () => {
+    const transport = new InMemoryTransport((method) => method === 'slow' ? new Promise(res => setTimeout(() => res('0x1'), 50)) : '0x2');
+    const provider = new Provider(transport, { timeout: 10 });
+    await expect(provider.callRpc('slow')).rejects.toThrow('RPC request failed for method "slow": Request timed out after 10ms');
+    await expect(provider.callRpc('slow')).rejects.toBeInstanceOf(TimeoutError);
+    await expect(provider.callRpc('slow', [], { timeout: 1000 })).resolves.toBe(1);
+  });
+});
+
+describe('WebSocketTransport', () => {
+  it('sends requests over the shared Subscription connection', async () => {
+    const sub = new Subscription('ws://localhost:8546');
+    const connect = jest.spyOn(sub, 'connect').mockResolvedValue(undefined);
+    const request = jest.spyOn(sub, 'request').mockResolvedValue({ id: 1, result: '0x5' });
+    const provider = new Provider(new WebSocketTransport(sub));
+    await expect(provider.getBlockNumber()).resolves.toBe(5);
+    await expect(provider.getBlockNumber()).resolves.toBe(5);
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({ method: 'eth_blockNumber' }), expect.anything());
+  });
+
+  it('remaps ids so provider ids never collide with subscription ids', async () => {
+    const sub = new Subscription('ws://localhost:8546');
+    const ws = { send: jest.fn(), close: jest.fn() };
+    sub['ws'] = ws;
+    sub['isConnected'] = true;
+    sub['idCounter'] = 7;
+    const promise = sub.request({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] });
+    expect(JSON.parse(ws.send.mock.calls[0][0]).id).toBe(7);
+    sub['pendingRequests'].get(7)!.resolve({ jsonrpc: '2.0', id: 7, result: '0x1' });
+    await expect(promise).resolves.toEqual({ jsonrpc: '2.0', id: 1, result: '0x1' });
+  });
+
+  it('forgets requests that time out or are aborted', async () => {
+    const sub = new Subscription('ws://localhost:8546');
+    sub['ws'] = { send: jest.fn(), close: jest.fn() };
+    sub['isConnected'] = true;
+    jest.spyOn(sub, 'connect').mockResolvedValue(undefined);
+    const transport = new WebSocketTransport(sub);
+
+    const timedOut = await transport.request({ jsonrpc: '2.0', id: 1, method: 'eth_chainId' }, { timeout: 10 }).catch(e => e);
+    expect(timedOut).toBeInstanceOf(TimeoutError);
+    expect(sub['pendingRequests'].size).toBe(0);
+
+    const controller = new AbortController();
+    const aborted = transport.request({ jsonrpc: '2.0', id: 2, method: 'eth_chainId' }, { signal: controller.signal });
+    await new Promise(res => setImmediate(res));
+    expect(sub['pendingRequests'].size).toBe(1);
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    expect(sub['pendingRequests'].size).toBe(0);
+  });
+
+  it('exposes the subscription URL', () => {
+    expect(new WebSocketTransport('ws://localhost:8546').url).toBe('ws://localhost:8546');
+  });
+});
+
+describe('IpcTransport', () => {
+  const socketPath = path.join(os.tmpdir(), `necjs-test-${process.pid}.ipc`);
+  let server: net.Server;
+
+  beforeAll((done) => {
+    server = net.createServer((conn) => {
+      conn.setEncoding('utf8');
+      conn.on('data', (data: string) => {
+        for (const line of data.split('\n').filter(Boolean)) {
+          const req = JSON.parse(line);
+          if (req.method === 'eth_hang') continue;
+          // Write the response in two chunks without a trailing newline to exercise stream framing
+          const body = JSON.stringify({ jsonrpc: '2.0', id: req.id, result: req.method === 'eth_chainId' ? '0x7' : '0x{}' });
+          conn.write(body.slice(0, 5));
+          conn.write(body.slice(5));
+        }
+      });
+    });
+    server.listen(socketPath, done);
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  it('sends requests over a local socket', async () => {
+    const transport = new IpcTransport(socketPath);
+    const provider = new Provider(transport);
+    await expect(provider.getChainId()).resolves.toBe(7);
+    const [a, b] = await Promise.all([
+      transport.request({ jsonrpc: '2.0', id: 100, method: 'eth_chainId', params: [] }),
+      transport.request({ jsonrpc: '2.0', id: 101, method: 'other', params: [] }),
+    ]);
+    expect(a).toEqual({ jsonrpc: '2.0', id: 100, result: '0x7' });
+    expect(b).toEqual({ jsonrpc: '2.0', id: 101, result: '0x{}' });
+    transport.close();
+  });
+
+  it('drops pending requests that time out or are aborted', async () => {
+    const transport = new IpcTransport(socketPath);
+    const pending = () => (transport as any).pendingRequests.size;
+    await expect(transport.request({ id: 1, method: 'eth_hang' }, { timeout: 20 })).rejects.toBeInstanceOf(TimeoutError);
+    expect(pending()).toBe(0);
+
+    const controller = new AbortController();
+    const aborted = transport.request({ id: 2, method: 'eth_hang' }, { signal: controller.signal });
+    await new Promise(res => setTimeout(res, 10));
+    expect(pending()).toBe(1);
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    expect(pending()).toBe(0);
+    transport.close();
+  });
+
+  it('rejects when the socket cannot be reached', async () => {
+    const transport = new IpcTransport(path.join(os.tmpdir(), 'necjs-missing.ipc'));
+    await expect(transport.request({ id: 1, method: 'eth_chainId' })).rejects.toBeInstanceOf(TransportError);
+  });
+});
@@ -0,0 +1,85 @@
+import { ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import { hexlify, toUtf8Bytes } from 'ethers';
+
+const keys = ml_dsa87.keygen(new Uint8Array(32).fill(9));
+const publicKey = hexlify(keys.publicKey);
+const mockMlKem = {
+  privateKeyToAddress: jest.fn(),
+  signTransactionMLDSA87: jest.fn().mockReturnValue({ raw: '0xf8a1' }),
+  decodeRLPTransaction: jest.fn().mockReturnValue({
+    fields: ['', '', '01', '00'.repeat(20), '', '', 'cafe', hexlify(toUtf8Bytes(publicKey.slice(2))).slice(2)],
+    count: 8,
+  }),
+};
+jest.mock('../src/webassembly/mlkem', () => ({
+  loadWasm: jest.fn().mockResolvedValue(mockMlKem),
+}));
+
+import { Wallet } from '../src/wallet';
+import { ExtensionSigner } from '../src/extension';
+import { publicKeyToAddress } from '../src/message';
+import { hashDomain, hashTypedData, verifyTypedData } from '../src/typed-data';
+
+// The "Ether Mail" example from EIP-712
+const domain = {
+  name: 'Ether Mail',
+  version: '1',
+  chainId: 1,
+  verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+};
+const types = {
+  EIP712Domain: [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'verifyingContract', type: 'address' },
+  ],
+  Person: [
+    { name: 'name', type: 'string' },
+    { name: 'wallet', type: 'address' },
+  ],
+  Mail: [
+    { name: 'from', type: 'Person' },
+    { name: 'to', type: 'Person' },
+    { name: 'contents', type: 'string' },
+  ],
+};
+const mail = {
+  from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+  to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+  contents: 'Hello, Bob!',
+};
+
+describe('typed data hashing', () => {
+  it('matches the EIP-712 reference values', () => {
+    expect(hashDomain(domain)).toBe('0xf2cee375fa42b42143804025fc449deafd50cc031ca257e0b194a650a912090f');
+    expect(hashTypedData(domain, types, mail)).toBe('0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2');
+  });
+});
+
+describe('typed data signing', () => {
+  const address = publicKeyToAddress(publicKey);
+
+  it('signs with the wallet key and verifies the signature', async () => {
+    mockMlKem.privateKeyToAddress.mockReturnValue(address);
+    const wallet = await Wallet.create(hexlify(keys.secretKey).slice(2));
+    const signature = await wallet.signTypedData(domain, types, mail);
+
+    expect(verifyTypedData(domain, types, mail, signature, address)).toBe(true);
+    expect(verifyTypedData(domain, types, { ...mail, contents: 'Hello, Eve!' }, signature, address)).toBe(false);
+    expect(verifyTypedData({ ...domain, chainId: 2 }, types, mail, signature, address)).toBe(false);
+  });
+
+  it('asks the extension wallet through ncog_signTypedData', async () => {
+    const injected = {
+      request: jest.fn().mockImplementation(async ({ method }) => method === 'ncog_accounts'
+        ? { selectedAccount: { accountAddress: address } }
+        : '0xsigned'),
+    };
+    const signer = new ExtensionSigner(injected, {} as any);
+    await expect(signer.signTypedData(domain, types, mail)).resolves.toBe('0xsigned');
+    const [from, payload] = injected.request.mock.calls[1][0].params;
+    expect(from).toBe(address);
+    expect(JSON.parse(payload)).toMatchObject({ primaryType: 'Mail', message: { contents: 'Hello, Bob!' } });
+  });
+});
@@ -1,5 +1,6 @@
 import {
   hexToDecimalString,
+  hexToBigInt,
   normalizeHexField,
   decimalToHex,
   etherToWeiHex,
@@ -23,6 +24,21 @@ describe('utils', () => {
     it('throws on invalid hex', () => {
       expect(() => hexToDecimalString('xyz')).toThrow();
     });
+    it('returns a decimal string instead of rounding unsafe integers', () => {
+      expect(hexToDecimalString('0x20000000000001')).toBe('9007199254740993');
+    });
+  });
+
+  describe('hexToBigInt', () => {
+    it('converts quantities without precision loss', () => {
+      expect(hexToBigInt('0xde0b6b3a7640001')).toBe(BigInt('1000000000000000001'));
+      expect(hexToBigInt('0x')).toBe(BigInt(0));
+      expect(hexToBigInt('42')).toBe(BigInt(42));
+    });
+    it('rejects invalid or unsafe input', () => {
+      expect(() => hexToBigInt('0xzz')).toThrow();
+      expect(() => hexToBigInt(2 ** 60)).toThrow();
+    });
   });
 
   describe('normalizeHexField', () => {
@@ -61,13 +77,21 @@ describe('utils', () => {
 
   describe('serializeForRpc', () => {
     it('serializes payload for RPC', () => {
-      const expectedAmount = '0x' + (BigInt(3) * (BigInt(10) ** BigInt(DEFAULT_DECIMALS))).toString(16);
-      expect(serializeForRpc({ value: 1, foo: 2, amount: 3 })).toEqual({
+      expect(serializeForRpc({ value: { nec: 1 }, foo: 2, amount: { nec: 3 }, fee: { wei: BigInt(5) } })).toEqual({
         value: '0xde0b6b3a7640000',
         foo: '0x2',
-        amount: expectedAmount,
+        amount: '0x29a2241af62c0000',
+        fee: '0x5',
       });
     });
+    it('rejects an ambiguous value', () => {
+      expect(() => serializeForRpc({ value: 1 })).toThrow('Ambiguous amount');
+      expect(() => serializeForRpc({ amount: 3 })).toThrow('Ambiguous amount');
+      expect(() => serializeForRpc({ balance: '3' })).toThrow('Ambiguous amount');
+      expect(() => serializeForRpc({ minAmount: '1.5' })).toThrow('Ambiguous amount');
+      expect(serializeForRpc({ amount: '0x3', balance: 0 })).toEqual({ amount: '0x3', balance: '0x0' });
+      expect(serializeForRpc({ value: '0x10' })).toEqual({ value: '0x10' });
+    });
   });
 
   describe('normalizeResponse', () => {
@@ -5,7 +5,7 @@ const mockMlKem = {
   symEncrypt: jest.fn(),
   symDecrypt: jest.fn(),
   privateKeyToAddress: jest.fn().mockReturnValue('0x1234567890abcdef1234567890abcdef12345678'),
-  signTransactionMLDSA87: jest.fn().mockReturnValue({ raw: '0xsignedtx' }),
+  signTransactionMLDSA87: jest.fn().mockReturnValue({ raw: '0xf8a1' }),
   decodeRLPTransaction: jest.fn().mockReturnValue({ decoded: true }),
 };
 jest.mock('../src/webassembly/mlkem', () => {
@@ -13,11 +13,21 @@ jest.mock('../src/webassembly/mlkem', () => {
     loadWasm: jest.fn().mockResolvedValue(mockMlKem),
   };
 });
+jest.mock('../src/webassembly/mlkem-browser', () => ({
+  loadWasm: jest.fn().mockResolvedValue(mockMlKem),
+}));
 
 
 // 👇 Now your imports
-import { Wallet, Signer, TxParams } from '../src/wallet';
-import type { Provider } from '../src/provider';
+import * as nodeBundle from '../src/wallet';
+import * as browserBundle from '../src/wallet.browser';
+import { BaseWallet, Signer, TxParams } from '../src/wallet-core';
+import { Provider } from '../src/provider';
+import { TransactionResponse } from '../src/transaction-response';
+import { getBytes, keccak256 } from 'ethers';
+import { ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import { inspect } from 'util';
+const privateKey = '0x' + '11'.repeat(64);
 // Mock Provider
 const mockProvider: jest.Mocked<Provider> = {
   getChainId: jest.fn().mockResolvedValue(1),
@@ -25,68 +35,151 @@ const mockProvider: jest.Mocked<Provider> = {
   // ...other methods can be added as needed
 } as any;
 
-describe('Wallet', () => {
-  it('creates a Wallet instance from a private key', async () => {
-    const wallet = await Wallet.create('0xprivkey');
-    expect(wallet).toBeInstanceOf(Wallet);
-    expect(wallet.address).toBe('0x1234567890abcdef1234567890abcdef12345678');
-    expect(wallet.privateKey).toBe('0xprivkey');
+describe('wallet core', () => {
+  it('shares one Signer between the bundles and needs a backend to create wallets', async () => {
+    expect(nodeBundle.Signer).toBe(Signer);
+    expect(browserBundle.Signer).toBe(Signer);
+    await expect(BaseWallet.create(privateKey)).rejects.toThrow('No crypto backend configured');
   });
+});
 
-  it('connects to a provider and returns a Signer', async () => {
-    const wallet = await Wallet.create('0xprivkey');
-    const signer = wallet.connect(mockProvider);
-    expect(signer).toBeInstanceOf(Signer);
-    expect(signer.address).toBe(wallet.address);
-  });
+describe.each([
+  ['Node', nodeBundle.Wallet],
+  ['browser', browserBundle.Wallet],
+])('%s bundle', (_bundle, Wallet) => {
+  describe('Wallet', () => {
+    it('returns instances of the bundle Wallet', async () => {
+      const wallet = await Wallet.create(privateKey);
+      expect(wallet).toBeInstanceOf(Wallet);
+      expect(wallet).toBeInstanceOf(BaseWallet);
+      await expect(Wallet.createRandom()).resolves.toBeInstanceOf(Wallet);
+    });
 
-  it('Wallet.connect static method returns signer, provider, and address', async () => {
-    const result = await Wallet.connect('0xprivkey', 'http://localhost:8545');
-    expect(result.address).toBe('0x1234567890abcdef1234567890abcdef12345678');
-    expect(result.signer).toBeInstanceOf(Signer);
-    expect(result.provider).toBeDefined();
-  });
-});
+    it('creates a Wallet instance from a private key', async () => {
+      const wallet = await Wallet.create(privateKey);
+      expect(wallet).toBeInstanceOf(Wallet);
+      expect(wallet.address).toBe('0x1234567890abcdef1234567890abcdef12345678');
+      expect(wallet.exportPrivateKey()).toBe('11'.repeat(64));
+    });
 
-describe('Signer', () => {
-  let wallet: Wallet;
-  let signer: Signer;
+    it('keeps the private key out of serialised and inspected output', async () => {
+      const wallet = await Wallet.create(privateKey);
+      const signer = wallet.connect(mockProvider);
+      expect(JSON.parse(JSON.stringify({ wallet }))).toEqual({ wallet: { address: wallet.address } });
+      expect(inspect(signer, { depth: 5 })).not.toContain('1111');
+      expect(inspect(wallet)).toBe(`Wallet { address: '${wallet.address}' }`);
+      expect(Object.values(wallet)).not.toContainEqual(expect.any(Uint8Array));
+      expect((wallet as any).privateKey).toBeUndefined();
+    });
 
-  beforeEach(async () => {
-    wallet = await Wallet.create('0xprivkey');
-    signer = wallet.connect(mockProvider);
-  });
+    it('keeps the provider credentials out of a connected signer', async () => {
+      const wallet = await Wallet.create(privateKey);
+      const signer = wallet.connect(new Provider('http://localhost:8545', { auth: { bearer: 'rpc-secret-token' } }));
+      expect(JSON.parse(JSON.stringify({ signer }))).toEqual({ signer: { address: wallet.address } });
+      expect(inspect(signer, { depth: 5 })).toBe(`Signer { address: '${wallet.address}' }`);
+    });
 
-  it('returns the correct address', async () => {
-    expect(signer.address).toBe(wallet.address);
-    await expect(signer.getAddress()).resolves.toBe(wallet.address);
-  });
+    it('zeroes the key on dispose and refuses to sign afterwards', async () => {
+      const wallet = await Wallet.create(privateKey);
+      wallet.dispose();
+      expect(() => wallet.exportPrivateKey()).toThrow('Wallet has been disposed');
+      await expect(wallet.signMessage('hi')).rejects.toThrow('Wallet has been disposed');
+      const tx: TxParams = { from: wallet.address, nonce: 0, gasPrice: '0x1', gasLimit: '0x5208', chainId: 1, to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd', value: 0 };
+      await expect(wallet.signTransaction(tx)).rejects.toThrow('Wallet has been disposed');
+      expect(() => wallet.dispose()).not.toThrow();
+    });
 
-  it('sends a transaction and returns tx hash', async () => {
-    const txParams: TxParams = {
-      from: wallet.address,
-      nonce: 1,
-      gasPrice: '0x1',
-      gasLimit: '0x5208',
-      to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
-      value: '0',
-      data: '0x',
-      chainId: 1,
-    };
-    const txHash = await signer.sendTransaction(txParams);
-    expect(txHash).toBe(305441741);
-    expect(mockMlKem.signTransactionMLDSA87).toHaveBeenCalled();
-    expect(mockProvider.callRpc).toHaveBeenCalledWith('eth_sendRawTransaction', ['0xsignedtx']);
-  });
+    it('rejects private keys that are not hex', async () => {
+      await expect(Wallet.create('0xprivkey')).rejects.toThrow('Private key must be a hex string');
+    });
+
+    it('connects to a provider and returns a Signer', async () => {
+      const wallet = await Wallet.create(privateKey);
+      const signer = wallet.connect(mockProvider);
+      expect(signer).toBeInstanceOf(Signer);
+      expect(signer.address).toBe(wallet.address);
+    });
+
+    it('Wallet.connect static method returns signer, provider, and address', async () => {
+      const result = await Wallet.connect(privateKey, 'http://localhost:8545');
+      expect(result.address).toBe('0x1234567890abcdef1234567890abcdef12345678');
+      expect(result.signer).toBeInstanceOf(Signer);
+      expect(result.provider).toBeDefined();
+    });
 
-  it('throws if required tx params are missing', async () => {
-    const txParams: any = { to: '', value: '', data: '', gasPrice: '', chainId: 1 };
-    await expect(signer.sendTransaction(txParams)).rejects.toThrow('Missing required transaction parameters');
+    it('signs a transaction offline and returns the raw RLP with its hash', async () => {
+      const wallet = await Wallet.create(privateKey);
+      const tx: TxParams = {
+        from: wallet.address, nonce: 0, gasPrice: '0x1', gasLimit: '0x5208', chainId: 1,
+        to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd', value: { nec: '1' },
+      };
+      await expect(wallet.signTransaction(tx)).resolves.toEqual({ raw: '0xf8a1', hash: keccak256('0xf8a1') });
+      expect(mockMlKem.signTransactionMLDSA87).toHaveBeenLastCalledWith(expect.objectContaining({ value: '0xde0b6b3a7640000' }), '11'.repeat(64));
+    });
+
+    it('refuses to sign offline without a chain id', async () => {
+      const wallet = await Wallet.create(privateKey);
+      const tx: TxParams = { from: wallet.address, nonce: 0, gasPrice: '0x1', gasLimit: '0x5208', to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd', value: 0 };
+      await expect(wallet.signTransaction(tx)).rejects.toThrow('Missing required transaction parameters');
+    });
+
+    it('creates random wallets with their ML-DSA-87 public key', async () => {
+      const a = await Wallet.createRandom();
+      const b = await Wallet.createRandom();
+      expect(a.exportPrivateKey()).toMatch(/^[0-9a-f]{9792}$/);
+      expect(a.exportPrivateKey()).not.toBe(b.exportPrivateKey());
+      expect(getBytes(a.publicKey)).toHaveLength(2592);
+      expect(mockMlKem.privateKeyToAddress).toHaveBeenCalledWith(a.exportPrivateKey());
+
+      const message = new Uint8Array(32).fill(1);
+      const signature = ml_dsa87.sign(getBytes('0x' + a.exportPrivateKey()), message);
+      expect(ml_dsa87.verify(getBytes(a.publicKey), message, signature)).toBe(true);
+    });
   });
 
-  it('decodes a raw signed transaction', async () => {
-    const decoded = await signer.decode('0xsignedtx');
-    expect(decoded).toEqual({ decoded: true });
-    expect(mockMlKem.decodeRLPTransaction).toHaveBeenCalledWith('0xsignedtx');
+  describe('Signer', () => {
+    let wallet: BaseWallet;
+    let signer: Signer;
+
+    beforeEach(async () => {
+      wallet = await Wallet.create(privateKey);
+      signer = wallet.connect(mockProvider);
+    });
+
+    it('returns the correct address', async () => {
+      expect(signer.address).toBe(wallet.address);
+      await expect(signer.getAddress()).resolves.toBe(wallet.address);
+    });
+
+    it('sends a transaction and returns a TransactionResponse', async () => {
+      const txParams: TxParams = {
+        from: wallet.address,
+        nonce: 1,
+        gasPrice: '0x1',
+        gasLimit: '0x5208',
+        to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+        value: '0',
+        data: '0x',
+        chainId: 1,
+      };
+      const response = await signer.sendTransaction(txParams);
+      expect(response).toBeInstanceOf(TransactionResponse);
+      expect(response.hash).toBe(305441741);
+      expect(response.from).toBe(wallet.address);
+      expect(response.nonce).toBe(BigInt(1));
+      expect(mockMlKem.signTransactionMLDSA87).toHaveBeenCalled();
+      expect(mockProvider.callRpc).toHaveBeenCalledWith('eth_sendRawTransaction', ['0xf8a1'], undefined);
+    });
+
+    it('throws if the nonce is negative', async () => {
+      const txParams: any = { to: '', value: '', data: '', gasPrice: '0x1', gasLimit: '0x5208', nonce: -1, chainId: 1 };
+      await expect(signer.sendTransaction(txParams)).rejects.toThrow('Missing required transaction parameters');
+    });
+
+    it('decodes a raw signed transaction', async () => {
+      const decoded = await signer.decode('0xf8a1');
+      expect(decoded).toEqual({ decoded: true });
+      expect(mockMlKem.decodeRLPTransaction).toHaveBeenCalledWith('0xf8a1');
+    });
   });
-}); 
\ No newline at end of file
+});